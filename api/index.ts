@@ -9,25 +9,27 @@ dotenv.config();
 import authRoutes from '../src/routes/authRoutes.js';
 import promptsRoutes from '../src/routes/promptsRoutes.js';
 import builderRoutes from '../src/routes/builderRoutes.js';
+import conversationRoutes from '../src/routes/conversationRoutes.js';
+import internalRoutes from '../src/routes/internalRoutes.js';
+import publicRoutes from '../src/routes/publicRoutes.js';
+import domainRoutes from '../src/routes/domainRoutes.js';
+import apiKeyRoutes from '../src/routes/apiKeyRoutes.js';
+import embedRoutes from '../src/routes/embedRoutes.js';
+import adminRoutes from '../src/routes/adminRoutes.js';
+import { corsOptions, customDomainRouting } from '../src/middleware/domainMiddleware.js';
 
 import { aiChat } from "../src/controllers/aiController.js"; // wherever you put it
 
 
 const app = express();
 
+// Behind Vercel's proxy; needed for req.ip in the chat rate limiter
+app.set('trust proxy', 1);
+
 // ─── CORS SETUP ────────────────────────────────────────────────────────────
-app.use(
-  cors({
-    origin: [
-      "https://websites-portfolios.vercel.app",
-      "http://localhost:5173",
-    ],
-    methods: ["GET","POST","PUT","PATCH","DELETE","OPTIONS"],
-    credentials: true,
-  })
-);
-// Also allow all pre‑flights:
-app.options("*", cors());
+// Platform origins (CORS_ORIGINS) plus verified custom domains
+app.use(cors(corsOptions));
+app.options("*", cors(corsOptions));
 
 // ─── OTHER MIDDLEWARE ─────────────────────────────────────────────────────
 
@@ -36,11 +38,21 @@ app.use(morgan("dev"));
 app.use("/public", express.static("public"));
 app.use(express.urlencoded({ extended: true }));
 app.use(express.json());
+// Custom domains serve their portfolio on slug-free paths
+app.use(customDomainRouting);
 
 
 app.use('/auth', authRoutes);
 app.use('/pdf', promptsRoutes);
 app.use('/api/builder', builderRoutes);
+app.use('/api/conversations', conversationRoutes);
+app.use('/api/domains', domainRoutes);
+app.use('/api/keys', apiKeyRoutes);
+app.use('/embed', embedRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/internal', internalRoutes);
+// After the static handler above, so files in public/ still win
+app.use('/public', publicRoutes);
 app.post("/ai/chat", aiChat);
 app.get('/test-cors', (req, res) => {
   res.json({ message: 'CORS working!' });
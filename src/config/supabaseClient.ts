@@ -1,6 +1,6 @@
 import dotenv from "dotenv";
 dotenv.config();
-import { createClient } from "@supabase/supabase-js";
+import { createClient, SupabaseClientOptions } from "@supabase/supabase-js";
 
 const SUPABASE_URL = process.env.SUPABASE_URL!;
 const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY!;
@@ -13,4 +13,13 @@ if (!SUPABASE_URL) {
 export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
 export const adminSupabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY)
 
-
+// Throwaway anon client for auth calls that establish or change a session
+// (sign-in, refresh). The shared `supabase` client must never hold a user's
+// session, or later requests would run as that user. `auth` overrides are
+// for flows that need request-scoped storage (OAuth PKCE).
+export const createAuthClient = (
+  auth: SupabaseClientOptions<"public">["auth"] = {}
+) =>
+  createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false, ...auth },
+  });
@@ -0,0 +1,166 @@
+import { Response } from "express";
+import { adminSupabase } from "../config/supabaseClient.js";
+import { AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import { deleteAccount, setSuspended } from "../services/accountService.js";
+import { listAuditEntries, recordAudit } from "../services/auditService.js";
+import { findBuilderSettings } from "../services/builderSettingsService.js";
+import { findPublication } from "../services/publishService.js";
+
+const USER_COLUMNS =
+  "id, name, user_name, email, role, active_cv_id, suspended_at, suspended_reason, deletion_scheduled_at";
+
+// PostgREST `or` filters are comma/paren delimited, and % / _ are wildcards
+const searchTerm = (q: string) => q.replace(/[%_,()\\*]/g, " ").trim();
+
+export const listUsers = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { q, suspended, limit, offset } = req.query as unknown as {
+      q?: string;
+      suspended?: "true" | "false";
+      limit: number;
+      offset: number;
+    };
+
+    let query = adminSupabase
+      .from("profiles")
+      .select(USER_COLUMNS, { count: "exact" })
+      .order("user_name", { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    const term = q ? searchTerm(q) : "";
+    if (term) {
+      query = query.or(
+        ["name", "user_name", "email"]
+          .map((column) => `${column}.ilike.%${term}%`)
+          .join(",")
+      );
+    }
+    if (suspended === "true") query = query.not("suspended_at", "is", null);
+    if (suspended === "false") query = query.is("suspended_at", null);
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+
+    // Whether a search ran, not its text: terms are often emails or names
+    await recordAudit(req, "admin.users.list", null, {
+      searched: Boolean(term),
+      suspended: suspended ?? null,
+    });
+    res.json({ users: data ?? [], total: count ?? 0, limit, offset });
+  } catch (error) {
+    console.error("Error listing users:", error);
+    res.status(500).json({ error: "Failed to fetch users" });
+  }
+};
+
+// Profile, uploads, settings and publication state of one user
+export const getUser = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.params.id;
+
+    const { data: profile, error } = await adminSupabase
+      .from("profiles")
+      .select(USER_COLUMNS)
+      .eq("id", userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!profile) return res.status(404).json({ error: "User not found" });
+
+    const [uploads, settings, publication] = await Promise.all([
+      adminSupabase
+        .from("cv_uploads")
+        .select("id, original_name, status, stage, error, created_at, updated_at")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false }),
+      findBuilderSettings(userId),
+      findPublication(userId),
+    ]);
+    if (uploads.error) throw uploads.error;
+
+    await recordAudit(req, "admin.users.view", userId);
+    res.json({ profile, uploads: uploads.data ?? [], settings, publication });
+  } catch (error) {
+    console.error("Error fetching user:", error);
+    res.status(500).json({ error: "Failed to fetch user" });
+  }
+};
+
+export const suspendUser = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { reason } = req.body;
+    const profile = await setSuspended(req.params.id, true, reason);
+    if (!profile) return res.status(404).json({ error: "User not found" });
+
+    await recordAudit(req, "admin.users.suspend", req.params.id, { reason: reason ?? null });
+    res.json({ message: "Portfolio suspended", profile });
+  } catch (error) {
+    console.error("Error suspending user:", error);
+    res.status(500).json({ error: "Failed to suspend user" });
+  }
+};
+
+export const unsuspendUser = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const profile = await setSuspended(req.params.id, false);
+    if (!profile) return res.status(404).json({ error: "User not found" });
+
+    await recordAudit(req, "admin.users.unsuspend", req.params.id);
+    res.json({ message: "Portfolio unsuspended", profile });
+  } catch (error) {
+    console.error("Error unsuspending user:", error);
+    res.status(500).json({ error: "Failed to unsuspend user" });
+  }
+};
+
+export const deleteUserAccount = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.params.id;
+    if (userId === req.user?.id) {
+      return res
+        .status(400)
+        .json({ error: "Use DELETE /auth/delete-user to delete your own account" });
+    }
+
+    const { data: profile, error } = await adminSupabase
+      .from("profiles")
+      .select("id")
+      .eq("id", userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!profile) return res.status(404).json({ error: "User not found" });
+
+    await deleteAccount(userId);
+    // The id only: the audit log outlives the account, its personal data must not
+    await recordAudit(req, "admin.users.delete", userId);
+    res.json({ message: "User deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting user:", error);
+    res.status(500).json({ error: "Failed to delete user" });
+  }
+};
+
+export const listAudit = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { actor_id, target_user_id, limit, offset } = req.query as unknown as {
+      actor_id?: string;
+      target_user_id?: string;
+      limit: number;
+      offset: number;
+    };
+
+    const { entries, total } = await listAuditEntries({
+      limit,
+      offset,
+      actorId: actor_id,
+      targetUserId: target_user_id,
+    });
+
+    await recordAudit(req, "admin.audit.list", target_user_id ?? null, {
+      actor_id: actor_id ?? null,
+    });
+    res.json({ entries, total, limit, offset });
+  } catch (error) {
+    console.error("Error listing audit log:", error);
+    res.status(500).json({ error: "Failed to fetch audit log" });
+  }
+};
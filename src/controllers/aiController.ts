@@ -1,13 +1,89 @@
 import { NextFunction, Request, Response } from "express";
 import dotenv from "dotenv";
 import { adminSupabase, supabase } from "../config/supabaseClient.js";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { CV_SYSTEM_PROMPT } from "../config/prompts.js";
+import {
+  estimateTokens,
+  GenerationOptions,
+  getLLMProvider,
+  getOwnerGenerationOptions,
+} from "../services/llm/index.js";
+import {
+  citationsFor,
+  formatChunksForPrompt,
+  retrieveCvChunks,
+} from "../services/retrieval/index.js";
+import {
+  appendMessage,
+  buildPromptHistory,
+  createConversation,
+  findConversation,
+  listMessages,
+} from "../services/conversationService.js";
+import { recordTokenUsage } from "../services/rateLimit/index.js";
+import {
+  loadPortfolioContent,
+  OWNER_COLUMNS,
+  PortfolioContent,
+  UNAVAILABLE_MESSAGES,
+} from "../services/portfolioService.js";
+import {
+  abortOnDisconnect,
+  openEventStream,
+  sendEvent,
+  wantsEventStream,
+} from "../utils/sse.js";
 
 dotenv.config();
 
-const apiKey = process.env.GOOGLE_API_KEY ?? ""; // Provide a fallback
-const genAI = new GoogleGenerativeAI(apiKey);
+// Replies with a single JSON body, or streams `delta` events followed by a
+// final `done` event when the client asked for text/event-stream. `meta` ends
+// up in the JSON body / the `done` payload either way. `onReply` runs with the
+// full answer before it is sent (it is skipped if the client disconnects).
+// `onSettled` always runs once generation stops, with whatever text was
+// produced, so spend is counted even for aborted or failed replies.
+const sendModelReply = async (
+  req: Request,
+  res: Response,
+  prompt: string,
+  options: GenerationOptions,
+  meta: Record<string, unknown>,
+  onReply?: (reply: string) => Promise<void>,
+  onSettled?: (generated: string) => Promise<void>
+) => {
+  const llm = getLLMProvider();
+
+  let reply = "";
+  if (!wantsEventStream(req)) {
+    try {
+      reply = await llm.generate(prompt, options);
+      await onReply?.(reply);
+      return res.json({ reply, ...meta });
+    } finally {
+      await onSettled?.(reply);
+    }
+  }
+
+  const signal = abortOnDisconnect(res);
+  openEventStream(res);
+
+  try {
+    for await (const delta of llm.stream(prompt, { ...options, signal })) {
+      reply += delta;
+      sendEvent(res, "delta", { text: delta });
+    }
+    await onReply?.(reply);
+    sendEvent(res, "done", { reply, ...meta });
+  } catch (err) {
+    // Client went away - nothing left to tell it
+    if (signal.aborted) return;
+    console.error("Error streaming AI response:", err);
+    sendEvent(res, "error", { error: "Error generating AI response" });
+  } finally {
+    await onSettled?.(reply);
+  }
+  res.end();
+};
 
 export const aiChat = async (
   req: Request,
@@ -31,7 +107,7 @@ export const aiChat = async (
     // Fetch CV data - either specific CV or latest
     let query = supabase
       .from("cv_uploads")
-      .select("extracted_text, original_name, id");
+      .select("extracted_text, original_name, id, user_id");
 
     if (cv_id) {
       query = query.eq("id", cv_id);
@@ -65,6 +141,13 @@ export const aiChat = async (
       });
     }
 
+    // Only the CV chunks relevant to the question go into the prompt
+    const chunks = await retrieveCvChunks(
+      cvData.id,
+      cvContent,
+      lastMessage.content
+    );
+
     // Build conversation history for context
     const conversationHistory = messages
       .slice(0, -1)
@@ -79,36 +162,27 @@ export const aiChat = async (
 
 CV FILE: ${fileName}
 
-CV CONTENT:
-${cvContent}
+RELEVANT CV SECTIONS:
+${formatChunksForPrompt(chunks)}
 
 ${conversationHistory ? `CONVERSATION HISTORY:\n${conversationHistory}\n` : ""}
 
 CURRENT USER QUESTION: ${lastMessage.content}
 
-Please provide a helpful and accurate response based on the CV content above.`;
-
-    // Generate AI response
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.0-flash",
-      generationConfig: {
-        temperature: 0.7,
-        topP: 0.8,
-        topK: 40,
-        maxOutputTokens: 2048,
-      },
-    });
+Please provide a helpful and accurate response based on the CV sections above, and mention which section(s) you used.`;
 
-    const response = await model.generateContent(prompt);
-    const reply = response.response.text();
+    // Generate AI response with the CV owner's model settings
+    const options = cvData.user_id
+      ? await getOwnerGenerationOptions(cvData.user_id)
+      : {};
 
     // Return response with metadata
-    res.json({
-      reply,
+    return sendModelReply(req, res, prompt, options, {
       cv_info: {
         file_name: fileName,
         cv_id: cvData.id,
       },
+      sources: citationsFor(chunks),
     });
   } catch (error) {
     console.error("Error in aiChat:", error);
@@ -131,81 +205,19 @@ Please provide a helpful and accurate response based on the CV content above.`;
   }
 };
 
-// Optional: Helper function to validate CV content
-export const validateCVContent = (content: string): boolean => {
-  if (!content || content.trim().length < 50) {
-    return false;
-  }
-
-  // Basic CV indicators
-  const cvIndicators = [
-    "experience",
-    "education",
-    "skills",
-    "work",
-    "employment",
-    "qualification",
-    "degree",
-    "university",
-    "college",
-    "company",
-    "job",
-    "position",
-    "role",
-    "responsibility",
-    "achievement",
-  ];
-
-  const lowerContent = content.toLowerCase();
-  return cvIndicators.some((indicator) => lowerContent.includes(indicator));
-};
-
-// Optional: Helper function to extract key CV sections
-export const extractCVSections = (content: string) => {
-  const sections = {
-    contact: null,
-    summary: null,
-    experience: null,
-    education: null,
-    skills: null,
-    other: null,
-  };
-
-  // This is a basic implementation - you might want to use more sophisticated parsing
-  const lowerContent = content.toLowerCase();
-
-  // Look for section headers
-  const sectionHeaders = {
-    contact: ["contact", "personal", "details"],
-    summary: ["summary", "profile", "objective", "about"],
-    experience: ["experience", "work", "employment", "career"],
-    education: ["education", "academic", "qualification"],
-    skills: ["skills", "competencies", "abilities"],
-  };
-
-  // Basic section detection logic would go here
-  // This is a placeholder for more sophisticated parsing
-
-  return sections;
-};
-
 export const portfolioChatWithPath = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
   try {
-    const { messages } = req.body;
+    const { conversation_id, messages } = req.body;
     const clientSlug = req.params.clientName;
 
-    // 1) Validate inputs
-    if (!messages?.length) {
-      return res.status(400).json({ error: "No messages provided" });
-    }
-    const lastMessage = messages[messages.length - 1];
-    if (!lastMessage.content) {
-      return res.status(400).json({ error: "No message content provided" });
-    }
+    // 1) The body was validated by portfolioChatSchema; older clients that
+    // still post a `messages` array only have their newest entry used.
+    const message: string =
+      req.body.message ?? messages[messages.length - 1].content;
     if (!clientSlug) {
       return res.status(400).json({ error: "Client identifier required" });
     }
@@ -215,7 +227,7 @@ export const portfolioChatWithPath = async (
 
     const { data: clientDataArray, error: profileError } = await adminSupabase
       .from("profiles")
-      .select("id,name, user_name, active_cv_id")
+      .select(OWNER_COLUMNS)
       .ilike("user_name", clientSlug);
 
     if (profileError) {
@@ -255,38 +267,30 @@ export const portfolioChatWithPath = async (
     // Use the first match
     const clientData = clientDataArray[0];
 
-    // 3) Fetch the CV row (by ID if set, otherwise latest)
-    let cvQuery = adminSupabase
-      .from("cv_uploads")
-      .select("id, extracted_text, original_name, created_at");
-
-    if (clientData.active_cv_id) {
-      cvQuery = cvQuery.eq("id", clientData.active_cv_id);
-    } else {
-      // Add a filter to only get CVs for this specific profile/user
-      // Assuming cv_uploads has a user_id or profile_id column
-      cvQuery = cvQuery
-        .eq("user_id", clientData.id) // Adjust column name as needed
-        .order("created_at", { ascending: false })
-        .limit(1);
-    }
-
-    const { data: cvRows, error: cvError } = await cvQuery;
-
-    if (cvError) {
+    // 3) Fetch the CV from the published portfolio
+    let content: PortfolioContent;
+    try {
+      content = await loadPortfolioContent(clientData);
+    } catch (cvError) {
       console.error("Supabase CV fetch error:", cvError);
       return res
         .status(500)
         .json({ error: "Error fetching CV data from database" });
     }
-    if (!cvRows?.length) {
+    if (!content.ok) {
+      return res
+        .status(content.status)
+        .json({ error: UNAVAILABLE_MESSAGES[content.status] });
+    }
+    const activeCV = content.cv;
+    if (!activeCV) {
       return res
         .status(404)
         .json({ error: "No CV data found. Please upload a CV first." });
     }
 
-    const activeCV = cvRows[0];
     const {
+      id: cvId,
       extracted_text: cvContent,
       original_name: fileName,
       created_at,
@@ -298,56 +302,75 @@ export const portfolioChatWithPath = async (
         .json({ error: "CV content not available. Please try again later." });
     }
 
-    // 4) Build conversation history
-    const conversationHistory = messages
-      .slice(0, -1)
-      .map((msg: any) =>
-        msg.role === "user"
-          ? `Visitor: ${msg.content}`
-          : `Assistant: ${msg.content}`
-      )
-      .join("\n");
+    // 4) Load or start the server-side conversation
+    const conversation = conversation_id
+      ? await findConversation(conversation_id, clientData.id)
+      : await createConversation(clientData.id, cvId);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
 
-    // 5) System prompt
+    // 5) Retrieve the CV chunks relevant to the question, and the history
+    const chunks = await retrieveCvChunks(cvId, cvContent, message);
+    const conversationHistory = await buildPromptHistory(
+      conversation,
+      await listMessages(conversation.id)
+    );
+    await appendMessage(conversation.id, "visitor", message);
+
+    // 6) System prompt
     const CLIENT_PORTFOLIO_PROMPT = `
 You are an AI assistant for ${clientData.name}'s professional portfolio.
-Use ONLY the information from their CV below to answer visitor questions.
+Use ONLY the information from the CV excerpts below to answer visitor questions.
+If the excerpts don't cover the question, say so rather than guessing.
 
-${clientData.name.toUpperCase()}'S CV:
-${cvContent}
+EXCERPTS FROM ${clientData.name.toUpperCase()}'S CV:
+${formatChunksForPrompt(chunks)}
 
 ${
   conversationHistory ? `CONVERSATION HISTORY:\n${conversationHistory}\n\n` : ""
 }
-VISITOR'S QUESTION: ${lastMessage.content}
+VISITOR'S QUESTION: ${message}
 
 Please respond professionally, accurately, and in the tone of a friendly portfolio guide for ${
       clientData.name
     }.
     `.trim();
 
-    // 6) Generate
-    const model = genAI.getGenerativeModel({
-      model: "gemini-2.0-flash",
-      generationConfig: {
-        temperature: 0.7,
-        topP: 0.8,
-        topK: 40,
-        maxOutputTokens: 2048,
+    // 7) Generate with the owner's model settings
+    const options = await getOwnerGenerationOptions(clientData.id);
+
+    // 8) Return (JSON or SSE), persisting the answer into the conversation
+    return sendModelReply(
+      req,
+      res,
+      CLIENT_PORTFOLIO_PROMPT,
+      options,
+      {
+        conversation_id: conversation.id,
+        client_info: {
+          name: clientData.name,
+          cv_file: fileName,
+          last_updated: created_at,
+        },
+        sources: citationsFor(chunks),
       },
-    });
-    const aiResp = await model.generateContent(CLIENT_PORTFOLIO_PROMPT);
-    const reply = aiResp.response.text();
-
-    // 7) Return
-    return res.json({
-      reply,
-      client_info: {
-        name: clientData.name,
-        cv_file: fileName,
-        last_updated: created_at,
+      async (reply) => {
+        await appendMessage(conversation.id, "assistant", reply);
       },
-    });
+      // Count against the owner's daily budget. A local estimate: this runs
+      // on every reply, including aborted ones.
+      async (generated) => {
+        try {
+          await recordTokenUsage(
+            clientData.id,
+            estimateTokens(CLIENT_PORTFOLIO_PROMPT + generated)
+          );
+        } catch (usageError) {
+          console.error("Error recording token usage:", usageError);
+        }
+      }
+    );
   } catch (err) {
     console.error("Error in portfolioChatWithPath:", err);
     return res.status(500).json({ error: "Error generating AI response" });
@@ -0,0 +1,49 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from "../services/apiKeyService.js";
+
+export const getApiKeys = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    res.json({ keys: await listApiKeys(userId) });
+  } catch (error) {
+    console.error("Error listing API keys:", error);
+    res.status(500).json({ error: "Failed to fetch API keys" });
+  }
+};
+
+// The plaintext key is only in this response
+export const issueApiKey = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const { name, allowed_origins } = req.body;
+    const { key, apiKey } = await createApiKey(userId, name, allowed_origins);
+    res.status(201).json({ key, apiKey });
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    res.status(500).json({ error: "Failed to create API key" });
+  }
+};
+
+export const deleteApiKey = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const apiKey = await revokeApiKey(userId, Number(req.params.id));
+    if (!apiKey) return res.status(404).json({ error: "API key not found" });
+
+    res.json({ message: "API key revoked", apiKey });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    res.status(500).json({ error: "Failed to revoke API key" });
+  }
+};
@@ -1,6 +1,36 @@
 import { Request, Response } from "express";
-import { adminSupabase, supabase } from "../config/supabaseClient.js";
+import {
+  adminSupabase,
+  createAuthClient,
+  supabase,
+} from "../config/supabaseClient.js";
 import { AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import {
+  cancelAccountDeletion,
+  scheduleAccountDeletion,
+} from "../services/accountService.js";
+import { buildAccountExport } from "../services/accountExport.js";
+import { recordAudit } from "../services/auditService.js";
+import {
+  exchangeAuthCode,
+  OAuthError,
+  startMagicLink,
+} from "../services/oauthService.js";
+import {
+  accessTokenFrom,
+  clearSessionCookies,
+  cookieOptions,
+  passesCsrfCheck,
+  REFRESH_TOKEN_COOKIE,
+  setSessionCookies,
+} from "../services/sessionService.js";
+import {
+  findProfileBySlug,
+  findPublicEmail,
+  loadPortfolioContent,
+  UNAVAILABLE_MESSAGES,
+} from "../services/portfolioService.js";
+import { renderAuthPage } from "../utils/htmlPage.js";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -23,7 +53,7 @@ const { email, password, name, phone, user_name, gender } = req.body;
 
   try {
     // Step 1: Create the auth user with user metadata
-    const { data: authData, error: authError } = await supabase.auth.signUp({
+    const { data: authData, error: authError } = await createAuthClient().auth.signUp({
       email,
       password,
       options: {
@@ -65,7 +95,7 @@ export const login = async (req: Request, res: Response) => {
 
   try {
     const { data: authData, error: authError } =
-      await supabase.auth.signInWithPassword({
+      await createAuthClient().auth.signInWithPassword({
         email,
         password,
       });
@@ -74,6 +104,10 @@ export const login = async (req: Request, res: Response) => {
       return res.status(400).json({ error: authError.message });
     }
 
+    // Browser clients can use the cookies; API clients keep using the
+    // session in the body as a bearer token
+    const csrf_token = setSessionCookies(res, authData.session);
+
     // Get user profile
     const { data: profileData, error: profileError } = await supabase
       .from("profiles")
@@ -88,6 +122,7 @@ export const login = async (req: Request, res: Response) => {
         user: authData.user,
         session: authData.session,
         profile: null,
+        csrf_token,
       });
     }
 
@@ -95,6 +130,7 @@ export const login = async (req: Request, res: Response) => {
       user: authData.user,
       session: authData.session,
       profile: profileData,
+      csrf_token,
     });
   } catch (err) {
     console.error("Login error:", err);
@@ -127,11 +163,42 @@ export const getProfile = async (req: AuthenticatedRequest, res: Response) => {
   }
 };
 
+// The access token to revoke with. The access cookie expires after about an
+// hour while the refresh cookie lives on, so an idle browser's session is
+// looked up through its refresh token instead.
+const tokenToRevoke = async (
+  req: Request,
+  credentials: ReturnType<typeof accessTokenFrom>
+): Promise<string | null> => {
+  if (credentials) return credentials.token;
+
+  const refresh_token = req.cookies?.[REFRESH_TOKEN_COOKIE];
+  if (!refresh_token) return null;
+  const { data } = await createAuthClient().auth.refreshSession({ refresh_token });
+  return data.session?.access_token ?? null;
+};
+
+// Revokes the caller's own session (other devices stay signed in) and
+// clears the session cookies
 export const logout = async (req: Request, res: Response) => {
   try {
-    const { error } = await supabase.auth.signOut();
-    if (error) {
-      return res.status(400).json({ error: error.message });
+    const credentials = accessTokenFrom(req);
+    const usesCookies =
+      credentials?.source === "cookie" ||
+      (!credentials && Boolean(req.cookies?.[REFRESH_TOKEN_COOKIE]));
+    if (usesCookies && !passesCsrfCheck(req)) {
+      return res.status(403).json({ error: "Missing or invalid CSRF token" });
+    }
+
+    const token = await tokenToRevoke(req, credentials);
+    clearSessionCookies(res);
+
+    if (token) {
+      const { error } = await adminSupabase.auth.admin.signOut(token, "local");
+      // An expired token has no session left to revoke
+      if (error && error.status !== 401 && error.status !== 403) {
+        return res.status(400).json({ error: error.message });
+      }
     }
     res.json({ message: "Logged out successfully" });
   } catch (err) {
@@ -140,6 +207,316 @@ export const logout = async (req: Request, res: Response) => {
   }
 };
 
+// Exchanges a refresh token (cookie, or `refresh_token` in the body for API
+// clients) for a new session. Supabase rotates the refresh token, so the
+// old one stops working.
+export const refreshSession = async (req: Request, res: Response) => {
+  try {
+    const cookieToken = req.cookies?.[REFRESH_TOKEN_COOKIE];
+    const refresh_token =
+      typeof req.body?.refresh_token === "string"
+        ? req.body.refresh_token
+        : cookieToken;
+
+    if (!refresh_token) {
+      return res.status(401).json({ error: "No refresh token provided" });
+    }
+
+    const fromCookie = refresh_token === cookieToken;
+    if (fromCookie && !passesCsrfCheck(req)) {
+      return res.status(403).json({ error: "Missing or invalid CSRF token" });
+    }
+
+    const { data, error } = await createAuthClient().auth.refreshSession({
+      refresh_token,
+    });
+
+    if (error || !data.session) {
+      if (fromCookie) clearSessionCookies(res);
+      return res
+        .status(401)
+        .json({ error: error?.message ?? "Invalid refresh token" });
+    }
+
+    if (fromCookie) {
+      const csrf_token = setSessionCookies(res, data.session);
+      return res.json({ expires_at: data.session.expires_at, csrf_token });
+    }
+    res.json({ session: data.session });
+  } catch (err) {
+    console.error("Refresh error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Where Supabase email links land; `confirmEmail` verifies the token
+const confirmUrl = (type: string) =>
+  `${process.env.BACKEND_URL ?? ""}/auth/confirm-email?type=${type}`;
+
+// Same answer whether or not the address has an account, so these
+// endpoints can't be used to probe for registered emails
+const GENERIC_EMAIL_SENT =
+  "If an account exists for that email, we've sent a message with further instructions.";
+
+const syncProfileEmail = async (userId: string, email?: string) => {
+  if (!email) return;
+  const { error } = await adminSupabase
+    .from("profiles")
+    .update({ email })
+    .eq("id", userId);
+  if (error) console.error("Error syncing profile email:", error);
+};
+
+// Checks the caller's current password on a throwaway client, so the
+// sensitive changes below can't be made with a stolen token alone
+const reauthenticate = async (email: string | undefined, password: string) => {
+  if (!email) return null;
+  const client = createAuthClient();
+  const { data, error } = await client.auth.signInWithPassword({ email, password });
+  return error || !data.session ? null : { client, session: data.session };
+};
+
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { error } = await createAuthClient().auth.resetPasswordForEmail(
+      req.body.email
+    );
+    if (error) console.error("Password reset email error:", error);
+    res.json({ message: GENERIC_EMAIL_SENT });
+  } catch (err) {
+    console.error("Forgot password error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Sets a new password with the code from the reset email, then signs out
+// every existing session
+export const resetPassword = async (req: Request, res: Response) => {
+  const { email, token, password } = req.body;
+
+  try {
+    const client = createAuthClient();
+    const { data, error } = await client.auth.verifyOtp({
+      email,
+      token,
+      type: "recovery",
+    });
+    if (error || !data.session) {
+      return res.status(400).json({ error: "Invalid or expired code" });
+    }
+
+    const { error: updateError } = await client.auth.updateUser({ password });
+    if (updateError) {
+      return res.status(400).json({ error: updateError.message });
+    }
+
+    await client.auth.signOut({ scope: "global" });
+    clearSessionCookies(res);
+    res.json({ message: "Password updated. Please log in with your new password." });
+  } catch (err) {
+    console.error("Reset password error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Requires the current password. Other sessions are signed out and the
+// caller gets a fresh session in their place.
+export const changePassword = async (req: AuthenticatedRequest, res: Response) => {
+  const { current_password, new_password } = req.body;
+
+  try {
+    const auth = await reauthenticate(req.user?.email, current_password);
+    if (!auth) {
+      return res.status(403).json({ error: "Current password is incorrect" });
+    }
+
+    const { error } = await auth.client.auth.updateUser({ password: new_password });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+    await auth.client.auth.signOut({ scope: "others" });
+
+    await recordAudit(req, "account.password.change", req.user!.id);
+    const csrf_token = setSessionCookies(res, auth.session);
+    res.json({
+      message: "Password changed",
+      session: auth.session,
+      csrf_token,
+    });
+  } catch (err) {
+    console.error("Change password error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Sends a confirmation to the new address; the email only changes once
+// it's confirmed (via the link, or the code at /change-email/confirm)
+export const changeEmail = async (req: AuthenticatedRequest, res: Response) => {
+  const { new_email, password } = req.body;
+
+  try {
+    if (new_email === req.user?.email?.toLowerCase()) {
+      return res.status(400).json({ error: "That is already your email" });
+    }
+
+    const auth = await reauthenticate(req.user?.email, password);
+    if (!auth) {
+      return res.status(403).json({ error: "Password is incorrect" });
+    }
+
+    const { error } = await auth.client.auth.updateUser(
+      { email: new_email },
+      { emailRedirectTo: confirmUrl("email_change") }
+    );
+    // The re-auth session was only needed for this call
+    await auth.client.auth.signOut({ scope: "local" });
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+
+    // No address in the audit log: it outlives the account
+    await recordAudit(req, "account.email.change", req.user!.id);
+    res.status(202).json({
+      message: `We've sent a confirmation to ${new_email}. Your email changes once it's confirmed.`,
+    });
+  } catch (err) {
+    console.error("Change email error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const confirmEmailChange = async (req: Request, res: Response) => {
+  const { email, token } = req.body;
+
+  try {
+    const { data, error } = await createAuthClient().auth.verifyOtp({
+      email,
+      token,
+      type: "email_change",
+    });
+    if (error || !data.user) {
+      return res.status(400).json({ error: "Invalid or expired code" });
+    }
+
+    await syncProfileEmail(data.user.id, data.user.email);
+    res.json({ message: "Email updated", email: data.user.email });
+  } catch (err) {
+    console.error("Confirm email change error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const resendConfirmation = async (req: Request, res: Response) => {
+  try {
+    const { error } = await createAuthClient().auth.resend({
+      type: "signup",
+      email: req.body.email,
+      options: { emailRedirectTo: confirmUrl("signup") },
+    });
+    if (error) console.error("Resend confirmation error:", error);
+    res.json({ message: GENERIC_EMAIL_SENT });
+  } catch (err) {
+    console.error("Resend confirmation error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+const MAGIC_LINK_COOKIE = "magic-link-verifier";
+// Supabase's default OTP lifetime
+const MAGIC_LINK_MAX_AGE_MS = 60 * 60 * 1000;
+const magicLinkCookieOptions = () => ({
+  ...cookieOptions(MAGIC_LINK_MAX_AGE_MS),
+  path: "/auth/magic-link",
+});
+
+// Passwordless login for existing accounts; new users still register
+export const sendMagicLink = async (req: Request, res: Response) => {
+  try {
+    const { error, codeVerifier } = await startMagicLink(
+      req.body.email,
+      `${process.env.BACKEND_URL ?? ""}/auth/magic-link/callback`
+    );
+    if (error) console.error("Magic link error:", error);
+    // Set either way, so the response doesn't reveal whether the email exists
+    res.cookie(MAGIC_LINK_COOKIE, codeVerifier, magicLinkCookieOptions());
+    res.json({ message: GENERIC_EMAIL_SENT });
+  } catch (err) {
+    console.error("Magic link error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Where the emailed link lands: trades its code (plus the verifier saved
+// when the link was requested) for a session
+export const magicLinkCallback = async (req: Request, res: Response) => {
+  const { code } = req.query;
+  const codeVerifier = req.cookies?.[MAGIC_LINK_COOKIE];
+  const { maxAge: _maxAge, ...clearOptions } = magicLinkCookieOptions();
+  res.clearCookie(MAGIC_LINK_COOKIE, clearOptions);
+
+  const failed = (message: string) =>
+    res.status(400).send(
+      renderAuthPage({
+        title: "Login Link Failed",
+        heading: "Login Link Failed",
+        message,
+        link: LOGIN_LINK,
+        tone: "error",
+      })
+    );
+
+  if (typeof code !== "string" || !code) {
+    return failed("Missing authorization code.");
+  }
+  if (typeof codeVerifier !== "string" || !codeVerifier) {
+    return failed(
+      "Open the link in the browser you requested it from, or enter the code from the email instead."
+    );
+  }
+
+  try {
+    const { session } = await exchangeAuthCode(code, codeVerifier);
+    setSessionCookies(res, session);
+    res.redirect(process.env.FRONTEND_URL ?? "/");
+  } catch (err) {
+    if (err instanceof OAuthError) return failed(err.message);
+    console.error("Magic link callback error:", err);
+    res.status(500).send(
+      renderAuthPage({
+        title: "Login Link Failed",
+        heading: "Login Link Failed",
+        message: "An unexpected error occurred. Please try again.",
+        tone: "error",
+      })
+    );
+  }
+};
+
+// Code-based alternative to following the magic link, e.g. for clients
+// on another device than the inbox
+export const verifyMagicLink = async (req: Request, res: Response) => {
+  const { email, token } = req.body;
+
+  try {
+    const { data, error } = await createAuthClient().auth.verifyOtp({
+      email,
+      token,
+      type: "email",
+    });
+    if (error || !data.session) {
+      return res.status(400).json({ error: "Invalid or expired code" });
+    }
+
+    const csrf_token = setSessionCookies(res, data.session);
+    res.json({ user: data.user, session: data.session, csrf_token });
+  } catch (err) {
+    console.error("Magic link verify error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Schedules deletion of the caller's own account. Everything is removed
+// after the grace period unless they cancel first.
 export const deleteUser = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.user?.id;
@@ -147,27 +524,61 @@ export const deleteUser = async (req: AuthenticatedRequest, res: Response) => {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
-    // Delete user from Supabase Auth (admin privilege required)
-    const { error: deleteError } = await adminSupabase.auth.admin.deleteUser(
-      userId
-    );
-    if (deleteError) {
-      return res.status(400).json({ error: deleteError.message });
+    const scheduledFor = await scheduleAccountDeletion(userId);
+    await recordAudit(req, "account.delete.schedule", userId, {
+      scheduled_for: scheduledFor,
+    });
+
+    res.status(202).json({
+      message: `Account scheduled for deletion. You can cancel until ${scheduledFor}.`,
+      deletion_scheduled_at: scheduledFor,
+    });
+  } catch (err) {
+    console.error("Delete user error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const cancelDeleteUser = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
     }
 
-    // Optionally, delete user profile from 'profiles' table
-    const { error: profileError } = await supabase
-      .from("profiles")
-      .delete()
-      .eq("id", userId);
-    if (profileError) {
-      // Log but don't block response
-      console.error("Profile deletion error:", profileError);
+    if (!(await cancelAccountDeletion(userId))) {
+      return res.status(409).json({ error: "No account deletion is pending" });
     }
+    await recordAudit(req, "account.delete.cancel", userId);
 
-    res.json({ message: "User deleted successfully" });
+    res.json({ message: "Account deletion cancelled" });
   } catch (err) {
-    console.error("Delete user error:", err);
+    console.error("Cancel delete user error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// ZIP of everything held about the caller
+export const exportAccount = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const archive = await buildAccountExport(userId);
+    await recordAudit(req, "account.export", userId, { bytes: archive.length });
+
+    const date = new Date().toISOString().slice(0, 10);
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="account-export-${date}.zip"`
+    );
+    res.setHeader("Cache-Control", "private, no-store");
+    res.send(archive);
+  } catch (err) {
+    console.error("Export account error:", err);
     res.status(500).json({ error: "Internal server error" });
   }
 };
@@ -180,161 +591,151 @@ export const getClientData = async (req: Request, res: Response) => {
       return res.status(401).json({ error: "No client sulg provided!" });
     }
 
-    const { data, error } = await supabase
-      .from("profiles")
-      .select("name, email")
-      .eq("user_name", clientSlug)
-      .limit(1)
-      .maybeSingle();
-
-    if (error) {
-      return res.status(400).json({ error: error.message });
+    // Same visibility rules as the rest of the public portfolio routes
+    const owner = await findProfileBySlug(clientSlug);
+    if (!owner) {
+      return res.status(404).json({ error: UNAVAILABLE_MESSAGES[404] });
     }
-    if (!data) {
-      return res.status(404).json({ error: "Client not found" });
+    const content = await loadPortfolioContent(owner);
+    if (!content.ok) {
+      return res
+        .status(content.status)
+        .json({ error: UNAVAILABLE_MESSAGES[content.status] });
     }
-    res.json({ profile: data });
+
+    const email = await findPublicEmail(content);
+    res.json({ profile: { name: owner.name, ...(email ? { email } : {}) } });
   } catch (err) {
     console.error("Get profile error:", err);
     res.status(500).json({ error: "Internal server error" });
   }
 };
+const LOGIN_LINK = { href: "/auth/login", label: "Log in" };
+
 export const confirmedEmail = async (req: Request, res: Response) => {
-  return res.send(`
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <meta charset="utf-8">
-        <title>Email Confirmed</title>
-        <style>
-          body { font-family: sans-serif; text-align: center; padding: 4rem; }
-          h1 { color: #6d5bba; }
-          a { color: #6d5bba; text-decoration: none; }
-        </style>
-      </head>
-      <body>
-        <h1>✅ Your email is confirmed!</h1>
-        <p>Thanks for verifying your address.</p>
-        <p><a href="${process.env.FRONTEND_URL}">Return to home page</a></p>
-      </body>
-    </html>
-  `);
+  return res.send(
+    renderAuthPage({
+      title: "Email Confirmed",
+      heading: "✅ Your email is confirmed!",
+      message: "Thanks for verifying your address.",
+      link: { href: process.env.FRONTEND_URL ?? "/", label: "Return to home page" },
+    })
+  );
 };
+
+// Email link types this page can confirm
+const CONFIRMABLE_TYPES = ["signup", "email_change"] as const;
+
 export const confirmEmail = async (req: Request, res: Response) => {
-  const email = (req.query.email as string) ?? ''
-  const token = (req.query.token as string) || (req.query.token_hash as string);
- if (!email || !token) {
-    return res
-      .status(400)
-      .send(`
-        <h1>Invalid Confirmation Link</h1>
-        <p>Missing ${!email ? 'email' : 'token'} in the URL.</p>
-      `)
+  const email = (req.query.email as string) ?? "";
+  const tokenHash = req.query.token_hash as string | undefined;
+  const token = (req.query.token as string) || tokenHash;
+  const type = CONFIRMABLE_TYPES.find((t) => t === req.query.type) ?? "signup";
+
+  if ((!email && !tokenHash) || !token) {
+    return res.status(400).send(
+      renderAuthPage({
+        title: "Invalid Confirmation Link",
+        heading: "Invalid Confirmation Link",
+        message: `Missing ${!token ? "token" : "email"} in the URL.`,
+        tone: "error",
+      })
+    );
   }
 
-  // Flip email_confirmed_at in the DB
-  const { error } = await supabase.auth.verifyOtp({
-    email,
-    token,
-    type: "signup",
-  });
+  // Flip email_confirmed_at (or apply the new address) in the DB
+  const { data, error } = await createAuthClient().auth.verifyOtp(
+    tokenHash && !email
+      ? { token_hash: tokenHash, type }
+      : { email, token, type }
+  );
 
   if (error) {
     console.error("Verification error", error);
-    return res.status(400).send(`
-        <html>
-          <body>
-            <h1>Email Confirmation Failed</h1>
-            <p>${error.message}</p>
-          </body>
-        </html>
-      `);
+    return res.status(400).send(
+      renderAuthPage({
+        title: "Email Confirmation Failed",
+        heading: "Email Confirmation Failed",
+        message: error.message,
+        tone: "error",
+      })
+    );
   }
 
-  // Success!
-  return res.status(200).send(`
-      <html>
-        <body>
-          <h1>Email Confirmed</h1>
-          <p>Your email has been successfully confirmed. You can now <a href="/auth/login">log in</a>.</p>
-        </body>
-      </html>
-    `);
+  if (type === "email_change" && data.user) {
+    await syncProfileEmail(data.user.id, data.user.email);
+  }
+
+  return res.status(200).send(
+    renderAuthPage({
+      title: "Email Confirmed",
+      heading: "Email Confirmed",
+      message:
+        type === "email_change"
+          ? "Your new email address is confirmed."
+          : "Your email has been successfully confirmed. You can now log in.",
+      link: LOGIN_LINK,
+    })
+  );
 };
+
 export const authCallback = async (req: Request, res: Response) => {
   const { code, error, error_description } = req.query;
 
   if (error) {
     console.error("Auth callback error:", error, error_description);
-    return res.status(400).send(`
-      <html>
-        <body>
-          <h1>Email Confirmation Failed</h1>
-          <p>${error_description || 'Error confirming user'}</p>
-          <a href="/auth/login">Try logging in</a>
-        </body>
-      </html>
-    `);
+    return res.status(400).send(
+      renderAuthPage({
+        title: "Email Confirmation Failed",
+        heading: "Email Confirmation Failed",
+        message: String(error_description || "Error confirming user"),
+        link: { href: "/auth/login", label: "Try logging in" },
+        tone: "error",
+      })
+    );
   }
 
   if (!code) {
-    return res.status(400).send(`
-      <html>
-        <body>
-          <h1>Invalid Confirmation Link</h1>
-          <p>Missing authorization code.</p>
-        </body>
-      </html>
-    `);
+    return res.status(400).send(
+      renderAuthPage({
+        title: "Invalid Confirmation Link",
+        heading: "Invalid Confirmation Link",
+        message: "Missing authorization code.",
+        tone: "error",
+      })
+    );
   }
 
   try {
     // Exchange the code for a session
-    const { data, error: exchangeError } = await supabase.auth.exchangeCodeForSession(code as string);
-    
-    if (exchangeError) {
-      console.error("Code exchange error:", exchangeError);
-      return res.status(400).send(`
-        <html>
-          <body>
-            <h1>Email Confirmation Failed</h1>
-            <p>${exchangeError.message}</p>
-          </body>
-        </html>
-      `);
-    }
+    const { session } = await exchangeAuthCode(code as string);
 
     // Success! User is now confirmed
-    // Set session cookies if you're using cookie-based auth
-    if (data.session) {
-      // Set httpOnly cookies for the session
-      res.cookie('sb-access-token', data.session.access_token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: data.session.expires_in * 1000
-      });
-      
-      res.cookie('sb-refresh-token', data.session.refresh_token, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days
-      });
-    }
+    setSessionCookies(res, session);
 
     // Redirect to success page or dashboard
     return res.redirect('/dashboard'); // or wherever you want users to go
     
   } catch (err) {
+    if (err instanceof OAuthError) {
+      console.error("Code exchange error:", err);
+      return res.status(400).send(
+        renderAuthPage({
+          title: "Email Confirmation Failed",
+          heading: "Email Confirmation Failed",
+          message: err.message,
+          tone: "error",
+        })
+      );
+    }
     console.error("Unexpected error:", err);
-    return res.status(500).send(`
-      <html>
-        <body>
-          <h1>Email Confirmation Failed</h1>
-          <p>An unexpected error occurred. Please try again.</p>
-        </body>
-      </html>
-    `);
+    return res.status(500).send(
+      renderAuthPage({
+        title: "Email Confirmation Failed",
+        heading: "Email Confirmation Failed",
+        message: "An unexpected error occurred. Please try again.",
+        tone: "error",
+      })
+    );
   }
-};
\ No newline at end of file
+};
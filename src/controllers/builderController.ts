@@ -1,26 +1,46 @@
 import { Response } from 'express';
 import { adminSupabase, supabase } from '../config/supabaseClient.js';
 import { AuthenticatedRequest } from '../middleware/authMiddleware.js';
+import { formatZodError } from '../middleware/validateMiddleware.js';
+import { builderSettingsSchema, settingsExportSchema } from '../schemas/builderSettingsSchema.js';
+import {
+  BuilderSettings,
+  BuilderSettingsRow,
+  DEFAULT_BUILDER_SETTINGS,
+  findBuilderSettings,
+  parseIfMatch,
+  pickSettingsColumns,
+  settingsETag,
+  writeBuilderSettings,
+  WriteSettingsOptions
+} from '../services/builderSettingsService.js';
+import {
+  collectOldAvatars,
+  DEFAULT_AVATAR_SIZE,
+  detectImageType,
+  InvalidImageError,
+  isOwnAvatarUrl,
+  removeAvatarFiles,
+  renderAvatarVariants,
+  storeAvatarVariants
+} from '../services/avatarService.js';
+import {
+  diffSettings,
+  findRevision,
+  listRevisionAvatarUrls,
+  listRevisions
+} from '../services/builderRevisionService.js';
+import {
+  buildSettingsExport,
+  migrateSettingsExport,
+  UnsupportedExportError
+} from '../services/settingsExport.js';
+import { applyThemePreset, findThemePreset, THEME_PRESETS } from '../services/themePresets.js';
+import { findPublication } from '../services/publishService.js';
+import { mergePatchList } from '../utils/mergePatch.js';
 
 
-export interface BuilderSettings {
-  primary_color: string;
-  bg_type: 'solid' | 'gradient';
-  bg_color: string;
-  gradient_from?: string;
-  gradient_to?: string;
-  gradient_direction?: string;
-  input_color: string;
-  border_color: string;
-  social_btn_color: string;
-  avatar_url?: string;
-  prompts: string[];
-  socials: Array<{
-    label: string;
-    href: string;
-    icon: string;
-  }>;
-}
+export type { BuilderSettings };
 
 // Get user's builder settings
 export const getBuilderSettings = async (req: AuthenticatedRequest, res: Response) => {
@@ -31,34 +51,14 @@ export const getBuilderSettings = async (req: AuthenticatedRequest, res: Respons
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { data, error } = await supabase
-      .from('builder_settings')
-      .select('*')
-      .eq('user_id', userId)
-      .single();
+    const data = await findBuilderSettings(userId);
 
-    if (error && error.code !== 'PGRST116') { // PGRST116 is "not found"
-      console.error('Error fetching builder settings:', error);
-      return res.status(500).json({ error: 'Failed to fetch settings' });
-    }
+    // Send If-Match with this on the next save to avoid overwriting changes
+    res.setHeader('ETag', settingsETag(data?.version ?? 0));
 
     // Return default settings if no settings found
     if (!data) {
-      const defaultSettings = {
-        primary_color: '#3b82f6',
-        bg_type: 'solid' as const,
-        bg_color: '#ffffff',
-        gradient_from: '#3b82f6',
-        gradient_to: '#8b5cf6',
-        gradient_direction: 'to bottom',
-        input_color: '#ffffff',
-        border_color: '#d1d5db',
-        social_btn_color: '#3b82f6',
-        avatar_url: null,
-        prompts: [],
-        socials: []
-      };
-      return res.json(defaultSettings);
+      return res.json({ ...DEFAULT_BUILDER_SETTINGS, version: 0 });
     }
 
     res.json(data);
@@ -68,6 +68,52 @@ export const getBuilderSettings = async (req: AuthenticatedRequest, res: Respons
   }
 };
 
+const sendConflict = (res: Response, current: BuilderSettingsRow | null) => {
+  const latest = current ?? { ...DEFAULT_BUILDER_SETTINGS, version: 0 };
+  res.setHeader('ETag', settingsETag(latest.version));
+  return res.status(409).json({
+    error: 'Settings were changed by another session',
+    current: latest
+  });
+};
+
+// Shared tail of POST and PATCH: honours If-Match and reports conflicts
+// with the current server state. `baseVersion` is the version a merged
+// update was built from; the write then only lands on that version, with
+// or without If-Match.
+const persistSettings = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  userId: string,
+  settings: BuilderSettings,
+  { baseVersion, ...options }: Pick<WriteSettingsOptions, 'restoredFrom'> & { baseVersion?: number } = {}
+) => {
+  const ifMatch = parseIfMatch(req.header('If-Match'));
+  if (Number.isNaN(ifMatch)) {
+    return res.status(400).json({ error: 'Malformed If-Match header' });
+  }
+
+  if (baseVersion !== undefined && ifMatch !== undefined && ifMatch !== baseVersion) {
+    return sendConflict(res, await findBuilderSettings(userId));
+  }
+
+  const result = await writeBuilderSettings(userId, settings, {
+    expectedVersion: baseVersion ?? ifMatch,
+    actorId: req.user?.id,
+    ...options
+  });
+
+  if (!result.ok) {
+    return sendConflict(res, result.current);
+  }
+
+  res.setHeader('ETag', settingsETag(result.row.version));
+  res.json({ 
+    message: 'Settings saved successfully', 
+    data: result.row 
+  });
+};
+
 // Create or update builder settings
 export const saveBuilderSettings = async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -77,84 +123,222 @@ export const saveBuilderSettings = async (req: AuthenticatedRequest, res: Respon
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
+    // Shape and values were checked by validate(builderSettingsSchema)
     const settings: BuilderSettings = req.body;
 
-    // Validate required fields
-    if (!settings.primary_color || !settings.bg_type || !settings.bg_color) {
-      return res.status(400).json({ error: 'Missing required fields' });
+    await persistSettings(req, res, userId, settings);
+  } catch (error) {
+    console.error('Error in saveBuilderSettings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  } 
+};
+
+// Partial update. Plain fields replace; `socials`/`prompts` are merged (see
+// builderSettingsPatchSchema). The merged result must still be valid.
+export const patchBuilderSettings = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    // Check if settings already exist for this user
-    const { data: existingSettings } = await adminSupabase
-      .from('builder_settings')
-      .select('id')
-      .eq('user_id', userId)
-      .single();
-
-    let result;
-
-    if (existingSettings) {
-      // Update existing settings
-      const { data, error } = await adminSupabase
-        .from('builder_settings')
-        .update({
-          primary_color: settings.primary_color,
-          bg_type: settings.bg_type,
-          bg_color: settings.bg_color,
-          gradient_from: settings.gradient_from,
-          gradient_to: settings.gradient_to,
-          gradient_direction: settings.gradient_direction,
-          input_color: settings.input_color,
-          border_color: settings.border_color,
-          social_btn_color: settings.social_btn_color,
-          avatar_url: settings.avatar_url,
-          prompts: settings.prompts,
-          socials: settings.socials
-        })
-        .eq('user_id', userId)
-        .select()
-        .single();
-
-      result = { data, error };
-    } else {
-      // Create new settings
-      const { data, error } = await adminSupabase
-        .from('builder_settings')
-        .insert({
-          user_id: userId,
-          primary_color: settings.primary_color,
-          bg_type: settings.bg_type,
-          bg_color: settings.bg_color,
-          gradient_from: settings.gradient_from,
-          gradient_to: settings.gradient_to,
-          gradient_direction: settings.gradient_direction,
-          input_color: settings.input_color,
-          border_color: settings.border_color,
-          social_btn_color: settings.social_btn_color,
-          avatar_url: settings.avatar_url,
-          prompts: settings.prompts,
-          socials: settings.socials
-        })
-        .select()
-        .single();
-
-      result = { data, error };
-    }
-
-    if (result.error) {
-      console.error('Error saving builder settings:', result.error);
-      return res.status(500).json({ error: 'Failed to save settings' });
+    const { prompts, socials, ...fields } = req.body;
+    const stored = await findBuilderSettings(userId);
+    const base: BuilderSettings = stored ?? DEFAULT_BUILDER_SETTINGS;
+
+    const merged = {
+      ...base,
+      ...fields,
+      prompts: prompts === undefined
+        ? base.prompts
+        : mergePatchList(base.prompts ?? [], prompts, (_prompt, index) => String(index)),
+      socials: socials === undefined
+        ? base.socials
+        : mergePatchList(base.socials ?? [], socials, (social) => social.label)
+    };
+
+    const result = builderSettingsSchema.safeParse(merged);
+    if (!result.success) {
+      return res.status(422).json({
+        error: 'Validation failed',
+        errors: formatZodError(result.error)
+      });
     }
 
-    res.json({ 
-      message: 'Settings saved successfully', 
-      data: result.data 
+    // Concurrent PATCHes must not drop each other's fields
+    await persistSettings(req, res, userId, result.data, { baseVersion: stored?.version ?? 0 });
+  } catch (error) {
+    console.error('Error in patchBuilderSettings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Settings history, newest first (without the full snapshots)
+export const listSettingsRevisions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { limit, offset } = req.query as unknown as { limit: number; offset: number };
+    const { revisions, total } = await listRevisions(userId, limit, offset);
+
+    res.json({ revisions, total, limit, offset });
+  } catch (error) {
+    console.error('Error in listSettingsRevisions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Preview a revision: its snapshot and what restoring it would change
+export const getSettingsRevision = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const revision = await findRevision(userId, Number(req.params.id));
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const current = (await findBuilderSettings(userId)) ?? DEFAULT_BUILDER_SETTINGS;
+
+    res.json({
+      revision,
+      changes: diffSettings(pickSettingsColumns(current), revision.settings)
     });
+  } catch (error) {
+    console.error('Error in getSettingsRevision:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Make a revision current again. This is a save like any other, so it is
+// itself recorded and can be undone.
+export const restoreSettingsRevision = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const revision = await findRevision(userId, Number(req.params.id));
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
 
+    // Older snapshots may predate stricter validation rules
+    const result = builderSettingsSchema.safeParse(revision.settings);
+    if (!result.success) {
+      return res.status(422).json({
+        error: 'Revision no longer passes validation',
+        errors: formatZodError(result.error)
+      });
+    }
+
+    await persistSettings(req, res, userId, result.data, { restoredFrom: revision.id });
   } catch (error) {
-    console.error('Error in saveBuilderSettings:', error);
+    console.error('Error in restoreSettingsRevision:', error);
     res.status(500).json({ error: 'Internal server error' });
-  } 
+  }
+};
+
+// Catalogue of built-in themes
+export const listThemes = async (_req: AuthenticatedRequest, res: Response) => {
+  res.json({ themes: THEME_PRESETS });
+};
+
+// Replace the colours/background with a preset; everything else is kept
+export const applyTheme = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const preset = findThemePreset(req.params.id);
+    if (!preset) {
+      return res.status(404).json({ error: 'Theme not found' });
+    }
+
+    const current = (await findBuilderSettings(userId)) ?? DEFAULT_BUILDER_SETTINGS;
+    await persistSettings(req, res, userId, applyThemePreset(current, preset));
+  } catch (error) {
+    console.error('Error in applyTheme:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Download the full settings as a versioned JSON document
+export const exportBuilderSettings = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const settings = (await findBuilderSettings(userId)) ?? DEFAULT_BUILDER_SETTINGS;
+
+    res.setHeader('Content-Disposition', 'attachment; filename="builder-settings.json"');
+    res.json(buildSettingsExport(settings));
+  } catch (error) {
+    console.error('Error in exportBuilderSettings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+// Replace the settings with an export (from this or another account).
+// Older export versions are migrated before validation.
+export const importBuilderSettings = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    let document;
+    try {
+      document = migrateSettingsExport(req.body);
+    } catch (migrationError) {
+      if (migrationError instanceof UnsupportedExportError) {
+        return res.status(422).json({ error: migrationError.message });
+      }
+      throw migrationError;
+    }
+
+    const result = settingsExportSchema.safeParse(document);
+    if (!result.success) {
+      return res.status(422).json({
+        error: 'Validation failed',
+        errors: formatZodError(result.error)
+      });
+    }
+
+    // Avatars are only kept when they are the importer's own files: the
+    // cleanup after uploads would otherwise treat another account's objects
+    // as the importer's
+    const { settings, avatar } = result.data;
+    const variants = Object.values(settings.avatar_variants ?? {});
+    const ownVariants = variants.length > 0 && variants.every((url) => isOwnAvatarUrl(userId, url));
+    await persistSettings(req, res, userId, {
+      ...settings,
+      avatar_url: avatar && isOwnAvatarUrl(userId, avatar.url) ? avatar.url : null,
+      avatar_variants: ownVariants ? settings.avatar_variants : null
+    });
+  } catch (error) {
+    console.error('Error in importBuilderSettings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 };
 
 // Delete builder settings
@@ -183,7 +367,8 @@ export const deleteBuilderSettings = async (req: AuthenticatedRequest, res: Resp
   }
 };
 
-// Upload avatar image
+// Upload avatar image: verified, re-encoded to square WebP sizes and saved
+// to the settings in one write. Avatars no longer referenced are removed.
 export const uploadAvatar = async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.user?.id;
@@ -196,33 +381,70 @@ export const uploadAvatar = async (req: AuthenticatedRequest, res: Response) =>
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    const fileName = `${userId}_${Date.now()}_${req.file.originalname}`;
-    
-    // Upload to Supabase Storage
-    const { data, error } = await supabase.storage
-      .from('avatars')
-      .upload(fileName, req.file.buffer, {
-        contentType: req.file.mimetype,
-        upsert: true
-      });
+    // The declared mimetype is only a hint; check the actual bytes
+    if (!detectImageType(req.file.buffer)) {
+      return res.status(415).json({ error: new InvalidImageError().message });
+    }
 
-    if (error) {
-      console.error('Error uploading avatar:', error);
-      return res.status(500).json({ error: 'Failed to upload avatar' });
+    let variants;
+    try {
+      variants = await renderAvatarVariants(req.file.buffer);
+    } catch (imageError) {
+      if (imageError instanceof InvalidImageError) {
+        return res.status(422).json({ error: imageError.message });
+      }
+      throw imageError;
+    }
+
+    const { urls, paths } = await storeAvatarVariants(userId, req.file.originalname, variants);
+
+    const current = await findBuilderSettings(userId);
+    const result = await writeBuilderSettings(
+      userId,
+      {
+        ...(current ?? DEFAULT_BUILDER_SETTINGS),
+        avatar_url: urls[DEFAULT_AVATAR_SIZE],
+        avatar_variants: urls
+      },
+      { actorId: userId }
+    );
+
+    if (!result.ok) {
+      await removeAvatarFiles(paths);
+      return res.status(409).json({
+        error: 'Settings were changed by another session',
+        current: result.current
+      });
     }
 
-    // Get public URL
-    const { data: { publicUrl } } = supabase.storage
-      .from('avatars')
-      .getPublicUrl(fileName);
+    // The published snapshot and the revision history may still point at
+    // earlier avatars
+    try {
+      const published = (await findPublication(userId))?.settings;
+      await collectOldAvatars(
+        userId,
+        [
+          ...Object.values(urls),
+          published?.avatar_url,
+          ...Object.values(published?.avatar_variants ?? {}),
+          ...(await listRevisionAvatarUrls(userId))
+        ],
+        current?.avatar_url
+      );
+    } catch (cleanupError) {
+      console.error('Error removing old avatars:', cleanupError);
+    }
 
+    res.setHeader('ETag', settingsETag(result.row.version));
     res.json({ 
       message: 'Avatar uploaded successfully',
-      url: publicUrl 
+      url: urls[DEFAULT_AVATAR_SIZE],
+      variants: urls,
+      data: result.row
     });
 
   } catch (error) {
     console.error('Error in uploadAvatar:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,85 @@
+import { Response } from "express";
+import { adminSupabase } from "../config/supabaseClient.js";
+import { AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import {
+  findConversation,
+  listMessages,
+} from "../services/conversationService.js";
+
+// A row of the list query, with the embedded message count
+interface ConversationRow {
+  id: string;
+  cv_id: number | null;
+  summary: string | null;
+  created_at: string;
+  updated_at: string;
+  chat_messages: Array<{ count: number }> | null;
+}
+
+// List the conversations visitors had with the owner's assistant
+export const listConversations = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { limit, offset } = req.query as unknown as {
+      limit: number;
+      offset: number;
+    };
+
+    const { data, error, count } = await adminSupabase
+      .from("chat_conversations")
+      .select("id, cv_id, summary, created_at, updated_at, chat_messages(count)", {
+        count: "exact",
+      })
+      .eq("owner_id", userId)
+      .order("updated_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error("Error listing conversations:", error);
+      return res.status(500).json({ error: "Failed to fetch conversations" });
+    }
+
+    res.json({
+      conversations: ((data ?? []) as ConversationRow[]).map(({ chat_messages, ...conversation }) => ({
+        ...conversation,
+        message_count: chat_messages?.[0]?.count ?? 0,
+      })),
+      total: count ?? 0,
+      limit,
+      offset,
+    });
+  } catch (err) {
+    console.error("Error in listConversations:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+export const getConversation = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const conversation = await findConversation(req.params.id, userId);
+    if (!conversation) {
+      return res.status(404).json({ error: "Conversation not found" });
+    }
+
+    const messages = await listMessages(conversation.id);
+    res.json({ conversation, messages });
+  } catch (err) {
+    console.error("Error in getConversation:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,188 @@
+import { Response } from "express";
+import { adminSupabase } from "../config/supabaseClient.js";
+import { AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import { removeCvFiles } from "../services/cv/storage.js";
+import { diffLines, diffStats } from "../utils/textDiff.js";
+
+const CV_LIST_COLUMNS =
+  "id, original_name, mimetype, status, stage, progress, error, created_at, updated_at";
+
+const getActiveCvId = async (userId: string): Promise<number | null> => {
+  const { data, error } = await adminSupabase
+    .from("profiles")
+    .select("active_cv_id")
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.active_cv_id ?? null;
+};
+
+// List the caller's CV uploads, newest first
+export const listCvs = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const [{ data, error }, activeCvId] = await Promise.all([
+      adminSupabase
+        .from("cv_uploads")
+        .select(CV_LIST_COLUMNS)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false }),
+      getActiveCvId(userId),
+    ]);
+
+    if (error) throw error;
+
+    res.json({
+      activeCvId,
+      cvs: (data ?? []).map((cv) => ({ ...cv, is_active: cv.id === activeCvId })),
+    });
+  } catch (error) {
+    console.error("Error listing CVs:", error);
+    res.status(500).json({ error: "Failed to fetch CVs" });
+  }
+};
+
+export const getCv = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const { data, error } = await adminSupabase
+      .from("cv_uploads")
+      .select(`${CV_LIST_COLUMNS}, extracted_text, parsed_cv, summary`)
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "CV not found" });
+
+    const activeCvId = await getActiveCvId(userId);
+    res.json({ cv: { ...data, is_active: data.id === activeCvId } });
+  } catch (error) {
+    console.error("Error fetching CV:", error);
+    res.status(500).json({ error: "Failed to fetch CV" });
+  }
+};
+
+// Deletes the upload row (chunks and jobs cascade) and its stored file
+export const deleteCv = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const { data: cv, error: fetchError } = await adminSupabase
+      .from("cv_uploads")
+      .select("id, stored_path")
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!cv) return res.status(404).json({ error: "CV not found" });
+
+    // Fall back to "latest processed" if the active CV goes away
+    const { error: profileError } = await adminSupabase
+      .from("profiles")
+      .update({ active_cv_id: null })
+      .eq("id", userId)
+      .eq("active_cv_id", cv.id);
+    if (profileError) throw profileError;
+
+    const { error } = await adminSupabase
+      .from("cv_uploads")
+      .delete()
+      .eq("id", cv.id);
+    if (error) throw error;
+
+    if (cv.stored_path) {
+      await removeCvFiles([cv.stored_path]).catch((removeError) =>
+        console.error("Error removing CV file:", removeError)
+      );
+    }
+
+    res.json({ message: "CV deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting CV:", error);
+    res.status(500).json({ error: "Failed to delete CV" });
+  }
+};
+
+// Choose which CV the public chat answers from; `cvId: null` goes back to
+// "latest processed upload".
+export const setActiveCv = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const { cvId } = req.body;
+
+    if (cvId !== null) {
+      const { data: cv, error } = await adminSupabase
+        .from("cv_uploads")
+        .select("id, status")
+        .eq("id", cvId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!cv) return res.status(404).json({ error: "CV not found" });
+      if (cv.status !== "processed") {
+        return res
+          .status(409)
+          .json({ error: "Only processed CVs can be made active" });
+      }
+    }
+
+    const { error } = await adminSupabase
+      .from("profiles")
+      .update({ active_cv_id: cvId })
+      .eq("id", userId);
+    if (error) throw error;
+
+    res.json({ message: "Active CV updated", activeCvId: cvId });
+  } catch (error) {
+    console.error("Error setting active CV:", error);
+    res.status(500).json({ error: "Failed to set active CV" });
+  }
+};
+
+// Line diff of the extracted text of two of the caller's CVs
+export const diffCvs = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const { from, to } = req.query as unknown as { from: number; to: number };
+
+    const { data, error } = await adminSupabase
+      .from("cv_uploads")
+      .select("id, original_name, extracted_text, created_at")
+      .eq("user_id", userId)
+      .in("id", [from, to]);
+
+    if (error) throw error;
+
+    const before = data?.find((cv) => String(cv.id) === String(from));
+    const after = data?.find((cv) => String(cv.id) === String(to));
+    if (!before || !after) {
+      return res.status(404).json({ error: "CV not found" });
+    }
+
+    let hunks;
+    try {
+      hunks = diffLines(before.extracted_text ?? "", after.extracted_text ?? "");
+    } catch (diffError) {
+      return res.status(422).json({ error: (diffError as Error).message });
+    }
+
+    const { extracted_text: _b, ...fromMeta } = before;
+    const { extracted_text: _a, ...toMeta } = after;
+    res.json({ from: fromMeta, to: toMeta, stats: diffStats(hunks), hunks });
+  } catch (error) {
+    console.error("Error diffing CVs:", error);
+    res.status(500).json({ error: "Failed to diff CVs" });
+  }
+};
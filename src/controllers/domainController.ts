@@ -0,0 +1,87 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import {
+  addDomain,
+  challengeRecord,
+  CustomDomain,
+  DomainTakenError,
+  findDomain,
+  listDomains,
+  removeDomain,
+  verifyDomain,
+} from "../services/domainService.js";
+
+// The token itself is only ever shown as part of the DNS record to create
+const toResponse = ({ verification_token: _token, ...domain }: CustomDomain) => ({
+  ...domain,
+  verified: Boolean(domain.verified_at),
+  challenge: challengeRecord({ ...domain, verification_token: _token }),
+});
+
+export const getDomains = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const domains = await listDomains(userId);
+    res.json({ domains: domains.map(toResponse) });
+  } catch (error) {
+    console.error("Error listing domains:", error);
+    res.status(500).json({ error: "Failed to fetch domains" });
+  }
+};
+
+// Registers a hostname and returns the TXT record that proves ownership
+export const createDomain = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const domain = await addDomain(userId, req.body.hostname);
+    if (!domain) {
+      return res.status(409).json({ error: "You have already added this domain" });
+    }
+    res.status(201).json({ domain: toResponse(domain) });
+  } catch (error) {
+    if (error instanceof DomainTakenError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("Error adding domain:", error);
+    res.status(500).json({ error: "Failed to add domain" });
+  }
+};
+
+// Checks the DNS challenge now; safe to call repeatedly while DNS propagates
+export const checkDomain = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const domain = await findDomain(userId, Number(req.params.id));
+    if (!domain) return res.status(404).json({ error: "Domain not found" });
+
+    const checked = await verifyDomain(domain);
+    res.json({ domain: toResponse(checked) });
+  } catch (error) {
+    if (error instanceof DomainTakenError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("Error verifying domain:", error);
+    res.status(500).json({ error: "Failed to verify domain" });
+  }
+};
+
+export const deleteDomain = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const removed = await removeDomain(userId, Number(req.params.id));
+    if (!removed) return res.status(404).json({ error: "Domain not found" });
+
+    res.json({ message: "Domain removed" });
+  } catch (error) {
+    console.error("Error removing domain:", error);
+    res.status(500).json({ error: "Failed to remove domain" });
+  }
+};
@@ -0,0 +1,45 @@
+import { Request, Response } from "express";
+import { DEFAULT_BUILDER_SETTINGS } from "../services/builderSettingsService.js";
+import {
+  findProfileBySlug,
+  loadPortfolioContent,
+  UNAVAILABLE_MESSAGES,
+} from "../services/portfolioService.js";
+import { THEME_FIELDS } from "../services/themePresets.js";
+
+// What the embeddable chat widget needs to render itself, taken from the
+// published builder settings
+export const getEmbedConfig = async (req: Request, res: Response) => {
+  try {
+    const owner = await findProfileBySlug(req.params.slug);
+    if (!owner) return res.status(404).json({ error: "Portfolio not found." });
+
+    const content = await loadPortfolioContent(owner);
+    if (!content.ok) {
+      return res
+        .status(content.status)
+        .json({ error: UNAVAILABLE_MESSAGES[content.status] });
+    }
+
+    const settings = { ...DEFAULT_BUILDER_SETTINGS, ...content.settings };
+
+    res.setHeader("Cache-Control", "public, max-age=300");
+    res.json({
+      portfolio: { name: owner.name, slug: owner.user_name },
+      theme: Object.fromEntries(
+        THEME_FIELDS.map((field) => [field, settings[field] ?? null])
+      ),
+      avatar: settings.avatar_url
+        ? { url: settings.avatar_url, variants: settings.avatar_variants ?? {} }
+        : null,
+      prompts: settings.prompts ?? [],
+      chat: {
+        path: `/pdf/${encodeURIComponent(owner.user_name)}`,
+        key_header: "X-Portfolio-Key",
+      },
+    });
+  } catch (error) {
+    console.error("Error in getEmbedConfig:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,31 @@
+import { Request, Response } from "express";
+import { purgeScheduledDeletions } from "../services/accountService.js";
+import { drainCvJobs } from "../services/cv/pipeline.js";
+
+// Leave headroom under Vercel's function timeout
+const DRAIN_BUDGET_MS = 45 * 1000;
+
+export const drainJobs = async (_req: Request, res: Response) => {
+  try {
+    const processed = await drainCvJobs({
+      deadline: Date.now() + DRAIN_BUDGET_MS,
+    });
+    res.json({ processed });
+  } catch (error) {
+    console.error("Error draining CV jobs:", error);
+    res.status(500).json({ error: "Failed to drain jobs" });
+  }
+};
+
+// Deletes accounts whose deletion grace period has ended
+export const purgeAccounts = async (_req: Request, res: Response) => {
+  try {
+    const result = await purgeScheduledDeletions({
+      deadline: Date.now() + DRAIN_BUDGET_MS,
+    });
+    res.json(result);
+  } catch (error) {
+    console.error("Error purging accounts:", error);
+    res.status(500).json({ error: "Failed to purge accounts" });
+  }
+};
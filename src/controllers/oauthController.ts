@@ -0,0 +1,174 @@
+import { CookieOptions, Request, Response } from "express";
+import { AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import { recordAudit } from "../services/auditService.js";
+import {
+  ensureOAuthProfile,
+  exchangeAuthCode,
+  findOAuthProvider,
+  listIdentities,
+  OAuthError,
+  OAuthState,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_MAX_AGE_MS,
+  safeRedirectPath,
+  startIdentityLink,
+  startOAuthSignIn,
+  unlinkIdentity,
+} from "../services/oauthService.js";
+import { setSessionCookies } from "../services/sessionService.js";
+import { renderAuthPage } from "../utils/htmlPage.js";
+
+// Lax is enough: the provider sends the browser back with a top-level GET
+const stateCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax",
+  path: "/auth/oauth",
+};
+
+const setStateCookie = (res: Response, state: OAuthState) =>
+  res.cookie(OAUTH_STATE_COOKIE, JSON.stringify(state), {
+    ...stateCookieOptions,
+    maxAge: OAUTH_STATE_MAX_AGE_MS,
+  });
+
+const readStateCookie = (req: Request): OAuthState | null => {
+  try {
+    const state = JSON.parse(req.cookies?.[OAUTH_STATE_COOKIE] ?? "null");
+    return typeof state?.code_verifier === "string" ? state : null;
+  } catch {
+    return null;
+  }
+};
+
+const frontendUrl = (path: string) => `${process.env.FRONTEND_URL ?? ""}${path}`;
+
+const sendOAuthError = (res: Response, status: number, message: string) =>
+  res.status(status).send(
+    renderAuthPage({
+      title: "Sign-in Failed",
+      heading: "Sign-in Failed",
+      message,
+      link: { href: frontendUrl("/"), label: "Back to the site" },
+      tone: "error",
+    })
+  );
+
+// GET /auth/oauth/:provider?redirect_to=/path - sends the browser to the
+// provider; new users get an account on the way back
+export const startOAuth = async (req: Request, res: Response) => {
+  const { provider } = req.params;
+  if (!findOAuthProvider(provider)) {
+    return res.status(404).json({ error: "Unknown provider" });
+  }
+
+  try {
+    const { url, codeVerifier } = await startOAuthSignIn(provider);
+    setStateCookie(res, {
+      provider,
+      code_verifier: codeVerifier,
+      redirect_to: safeRedirectPath(req.query.redirect_to),
+      link: false,
+    });
+    res.redirect(url);
+  } catch (err) {
+    console.error("OAuth start error:", err);
+    if (err instanceof OAuthError) return sendOAuthError(res, 400, err.message);
+    sendOAuthError(res, 500, "An unexpected error occurred. Please try again.");
+  }
+};
+
+// POST /auth/oauth/:provider/link - authenticated. Returns the provider URL
+// rather than redirecting so the request can carry the CSRF header.
+export const linkOAuthProvider = async (req: AuthenticatedRequest, res: Response) => {
+  const { provider } = req.params;
+  if (!findOAuthProvider(provider)) {
+    return res.status(404).json({ error: "Unknown provider" });
+  }
+
+  try {
+    const { url, codeVerifier } = await startIdentityLink(provider, req.accessToken!);
+    setStateCookie(res, {
+      provider,
+      code_verifier: codeVerifier,
+      redirect_to: safeRedirectPath(req.body?.redirect_to),
+      link: true,
+    });
+    res.json({ url });
+  } catch (err) {
+    if (err instanceof OAuthError) {
+      return res.status(400).json({ error: err.message });
+    }
+    console.error("OAuth link error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// GET /auth/oauth/:provider/callback - finishes sign-in or linking, sets the
+// session cookies and returns the browser to the frontend
+export const oauthCallback = async (req: AuthenticatedRequest, res: Response) => {
+  const { provider } = req.params;
+  const { code, error, error_description } = req.query;
+  const state = readStateCookie(req);
+  res.clearCookie(OAUTH_STATE_COOKIE, stateCookieOptions);
+
+  if (error) {
+    console.error("OAuth callback error:", error, error_description);
+    return sendOAuthError(res, 400, String(error_description || error));
+  }
+  if (!code || typeof code !== "string") {
+    return sendOAuthError(res, 400, "Missing authorization code.");
+  }
+  if (!state || state.provider !== provider) {
+    return sendOAuthError(res, 400, "This sign-in link has expired. Please start again.");
+  }
+
+  try {
+    const { session, user } = await exchangeAuthCode(code, state.code_verifier);
+
+    req.user = user;
+    if (state.link) {
+      await recordAudit(req, "account.identity.link", user.id, { provider });
+    } else {
+      await ensureOAuthProfile(user);
+    }
+
+    setSessionCookies(res, session);
+
+    const path = state.link
+      ? `${state.redirect_to}${state.redirect_to.includes("?") ? "&" : "?"}linked=${provider}`
+      : state.redirect_to;
+    res.redirect(frontendUrl(path));
+  } catch (err) {
+    console.error("OAuth callback error:", err);
+    if (err instanceof OAuthError) return sendOAuthError(res, 400, err.message);
+    sendOAuthError(res, 500, "An unexpected error occurred. Please try again.");
+  }
+};
+
+export const getIdentities = async (req: AuthenticatedRequest, res: Response) => {
+  res.json({ identities: listIdentities(req.user!) });
+};
+
+export const unlinkOAuthProvider = async (req: AuthenticatedRequest, res: Response) => {
+  const { provider } = req.params;
+  if (!findOAuthProvider(provider)) {
+    return res.status(404).json({ error: "Unknown provider" });
+  }
+
+  try {
+    const removed = await unlinkIdentity(req.user!, req.accessToken!, provider);
+    if (!removed) {
+      return res.status(404).json({ error: "Provider is not linked" });
+    }
+
+    await recordAudit(req, "account.identity.unlink", req.user!.id, { provider });
+    res.status(204).end();
+  } catch (err) {
+    if (err instanceof OAuthError) {
+      return res.status(409).json({ error: err.message });
+    }
+    console.error("OAuth unlink error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
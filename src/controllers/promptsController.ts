@@ -1,25 +1,28 @@
 import multer from "multer";
-import pdf2md from "@opendocsg/pdf2md";
-import fs from "fs";
-import { fileURLToPath } from "url";
-import { dirname, resolve } from "path";
 import { Request, Response, NextFunction } from "express";
-import { supabase } from "../config/supabaseClient.js";
+import { adminSupabase, supabase } from "../config/supabaseClient.js";
 import { AuthenticatedRequest } from "../middleware/authMiddleware.js";
-
-// emulate __dirname in ES modules
-// const __filename = fileURLToPath(import.meta.url);
-// const __dirname = dirname(__filename);
-
-// // ensure /uploads exists
-// const uploadsDir = resolve(__dirname, "../uploads");
-// if (!fs.existsSync(uploadsDir)) fs.mkdirSync(uploadsDir, { recursive: true });
-
-// // multer storage into local uploads folder
-// const storage = multer.diskStorage({
-//   destination: (_req, _file, cb) => cb(null, uploadsDir),
-//   filename: (_req, file, cb) => cb(null, `${Date.now()}-${file.originalname}`),
-// });
+import { getOrParseCv } from "../services/cv/index.js";
+import { findExtractor, supportedFormats } from "../services/cv/extractors/index.js";
+import {
+  findProfileBySlug,
+  loadPortfolioContent,
+  toPublicParsedCv,
+  UNAVAILABLE_MESSAGES,
+} from "../services/portfolioService.js";
+import {
+  cvWarnings,
+  drainCvJobs,
+  enqueueCvProcessing,
+  retryCvProcessing,
+  runCvStages,
+} from "../services/cv/pipeline.js";
+import {
+  createCvDownloadUrl,
+  removeCvFiles,
+  SIGNED_URL_TTL_SECONDS,
+  storeCvFile,
+} from "../services/cv/storage.js";
 
 export const upload = multer({
    storage: multer.memoryStorage(),
@@ -32,77 +35,271 @@ export const uploadCv = async (
   next: NextFunction
 ) => {
   try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
     if (!req.file) return res.status(400).json({ error: "No file uploaded" });
-    if (req.file.mimetype !== "application/pdf") {
-      fs.unlinkSync(req.file.path);
-      return res.status(400).json({ error: "Only PDF files are allowed" });
+    if (!(await findExtractor(req.file, req.file.buffer))) {
+      return res.status(400).json({
+        error: `Unsupported file type. Supported formats: ${supportedFormats()}`,
+      });
     }
 
+    const storedPath = await storeCvFile(userId, req.file);
+
     const { data, error } = await supabase
       .from("cv_uploads")
       .insert({
-        user_id: req.user?.id,
+        user_id: userId,
         original_name: req.file.originalname,
-        stored_path: req.file.path,
+        stored_path: storedPath,
         mimetype: req.file.mimetype,
         status: "uploaded",
       })
       .select("id")
       .single();
 
-    if (error) throw error;
+    if (error) {
+      // Don't leave an orphaned file behind
+      await removeCvFiles([storedPath]).catch((removeError) =>
+        console.error("Error removing orphaned CV file:", removeError)
+      );
+      throw error;
+    }
+
+    // Processing (extract -> parse -> chunk/embed -> summary) happens in the
+    // background; poll GET /pdf/cv/:id/status for progress.
+    await enqueueCvProcessing(data.id);
+
+    // Start on it right away. If the function is frozen after responding,
+    // the cron drain picks the job up once its lock times out.
+    drainCvJobs({ maxJobs: 1 }).catch((drainError) =>
+      console.error("Error processing CV jobs:", drainError)
+    );
 
-    res
-      .status(201)
-      .json({ uploadId: data.id, message: "PDF uploaded successfully" });
+    res.status(202).json({
+      uploadId: data.id,
+      status: "queued",
+      statusUrl: `/pdf/cv/${data.id}/status`,
+      message: "CV uploaded successfully",
+    });
   } catch (err: any) {
     next(err);
   }
 };
 
+// Synchronous variant: runs the whole pipeline inside the request and
+// returns the extracted text.
 export const convertPdfToMd = async (
   req: AuthenticatedRequest,
   res: Response
 ) => {
+  const userId = req.user?.id;
+  if (!userId) return res.status(401).json({ error: "Unauthorized" });
   if (!req.file) return res.status(400).json({ error: "No file uploaded" });
-  if (req.file.mimetype !== "application/pdf") {
-    fs.unlinkSync(req.file.path);
-    return res.status(400).json({ error: "Only PDF files are allowed" });
+  if (!(await findExtractor(req.file, req.file.buffer))) {
+    return res.status(400).json({
+      error: `Unsupported file type. Supported formats: ${supportedFormats()}`,
+    });
   }
+
+  let uploadId: number | null = null;
   try {
-    const fileBuffer = fs.readFileSync(req.file.path);
-    const markdown = await pdf2md(fileBuffer);
+    const storedPath = await storeCvFile(userId, req.file);
 
-    // Save file info and extracted text to cv_uploads
-    const { data, error } = await supabase
+    const { data: row, error: insertError } = await supabase
       .from("cv_uploads")
       .insert({
-        user_id: req.user?.id,
+        user_id: userId,
         original_name: req.file.originalname,
-        stored_path: req.file.path,
+        stored_path: storedPath,
         mimetype: req.file.mimetype,
-        extracted_text: markdown,
-        status: "processed"
+        status: "processing"
       })
       .select("id")
       .single();
 
+    if (insertError) {
+      await removeCvFiles([storedPath]).catch((removeError) =>
+        console.error("Error removing orphaned CV file:", removeError)
+      );
+      throw insertError;
+    }
+    uploadId = row.id as number;
+
+    // Marks the row failed (with the failing stage) on error
+    await runCvStages(uploadId);
+
+    const { data, error } = await adminSupabase
+      .from("cv_uploads")
+      .select("extracted_text, parsed_cv, summary, ocr_report")
+      .eq("id", uploadId)
+      .single();
+
     if (error) throw error;
 
     res.status(201).json({
+      uploadId,
+      message: "CV converted and saved successfully",
+      extractedText: data.extracted_text,
+      parsedCv: data.parsed_cv,
+      summary: data.summary,
+      ocr: data.ocr_report,
+      warnings: cvWarnings(data.ocr_report)
+    });
+  } catch (error) {
+    console.error(`Error converting CV (upload ${uploadId ?? "not created"}):`, error);
+    res.status(500).json({ error: "Failed to convert CV", uploadId });
+  }
+};
+
+export const getCvStatus = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const { data, error } = await adminSupabase
+      .from("cv_uploads")
+      .select("id, status, stage, progress, error, ocr_report, updated_at")
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "CV not found" });
+
+    const { ocr_report, ...status } = data;
+    res.json({
+      ...status,
+      retryable: data.status === "failed",
+      ocr: ocr_report,
+      warnings: cvWarnings(ocr_report),
+    });
+  } catch (error) {
+    console.error("Error fetching CV status:", error);
+    res.status(500).json({ error: "Failed to fetch CV status" });
+  }
+};
+
+// Re-queue a failed CV from the stage that failed
+export const retryCv = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const { data, error } = await adminSupabase
+      .from("cv_uploads")
+      .select("id")
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "CV not found" });
+
+    const job = await retryCvProcessing(data.id);
+    if (!job) {
+      return res.status(409).json({ error: "Only failed CVs can be retried" });
+    }
+
+    drainCvJobs({ maxJobs: 1 }).catch((drainError) =>
+      console.error("Error processing CV jobs:", drainError)
+    );
+
+    res.status(202).json({
       uploadId: data.id,
-      message: "PDF converted and saved successfully",
-      extractedText: markdown
+      status: "queued",
+      stage: job.stage,
+      statusUrl: `/pdf/cv/${data.id}/status`,
     });
   } catch (error) {
-    console.error("Error converting PDF:", error);
-    // Optionally update status to 'failed' if needed
-    if (req.file && req.file.path) {
-      await supabase
-        .from("cv_uploads")
-        .update({ status: "failed" })
-        .eq("stored_path", req.file.path);
+    console.error("Error retrying CV processing:", error);
+    res.status(500).json({ error: "Failed to retry CV processing" });
+  }
+};
+
+// Short-lived signed URL for downloading the original file
+export const getCvDownloadUrl = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const { data, error } = await adminSupabase
+      .from("cv_uploads")
+      .select("stored_path, original_name")
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "CV not found" });
+    if (!data.stored_path) {
+      return res.status(404).json({ error: "No stored file for this CV" });
+    }
+
+    const url = await createCvDownloadUrl(data.stored_path, data.original_name);
+    res.json({ url, expiresIn: SIGNED_URL_TTL_SECONDS });
+  } catch (error) {
+    console.error("Error creating CV download URL:", error);
+    res.status(500).json({ error: "Failed to create download URL" });
+  }
+};
+
+// Structured sections of one of the caller's CVs
+export const getParsedCv = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const { data, error } = await adminSupabase
+      .from("cv_uploads")
+      .select("id, extracted_text, parsed_cv")
+      .eq("id", req.params.id)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return res.status(404).json({ error: "CV not found" });
+
+    const parsedCv = await getOrParseCv(data);
+    if (!parsedCv) {
+      return res.status(409).json({ error: "CV text has not been extracted yet" });
+    }
+    res.json({ cvId: data.id, parsedCv });
+  } catch (error) {
+    console.error("Error fetching parsed CV:", error);
+    res.status(500).json({ error: "Failed to fetch parsed CV" });
+  }
+};
+
+// Public: sections of the portfolio's published CV, for rendering without an AI call
+export const getPortfolioCvSections = async (req: Request, res: Response) => {
+  try {
+    const owner = await findProfileBySlug(req.params.clientName);
+    if (!owner) return res.status(404).json({ error: "Portfolio not found." });
+
+    const content = await loadPortfolioContent(owner);
+    if (!content.ok) {
+      return res
+        .status(content.status)
+        .json({ error: UNAVAILABLE_MESSAGES[content.status] });
     }
-    res.status(500).json({ error: "Failed to convert PDF" });
+
+    const { cv, settings } = content;
+    const parsedCv = cv && (await getOrParseCv(cv));
+    if (!cv || !parsedCv) {
+      return res.status(404).json({ error: "No CV data found." });
+    }
+
+    res.json({
+      cvId: cv.id,
+      updatedAt: cv.created_at,
+      parsedCv: toPublicParsedCv(parsedCv, settings),
+    });
+  } catch (error) {
+    console.error("Error fetching CV sections:", error);
+    res.status(500).json({ error: "Failed to fetch CV sections" });
   }
 };
@@ -0,0 +1,87 @@
+import { createHash } from "crypto";
+import { Request, Response } from "express";
+import { verifyPreviewToken } from "../services/publishService.js";
+import {
+  buildPublicPortfolio,
+  findProfileById,
+  findProfileBySlug,
+  loadPortfolioContent,
+  PortfolioContent,
+  UNAVAILABLE_MESSAGES,
+} from "../services/portfolioService.js";
+
+const sendPortfolio = async (
+  req: Request,
+  res: Response,
+  content: PortfolioContent,
+  cacheControl: string
+) => {
+  if (!content.ok) {
+    return res
+      .status(content.status)
+      .json({ error: UNAVAILABLE_MESSAGES[content.status] });
+  }
+
+  const result = await buildPublicPortfolio(content);
+  const body = JSON.stringify(result.portfolio);
+  const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+
+  res.setHeader("ETag", etag);
+  res.setHeader("Last-Modified", result.lastModified.toUTCString());
+  res.setHeader("Cache-Control", cacheControl);
+
+  // Checks If-None-Match / If-Modified-Since against the headers above
+  if (req.fresh) {
+    return res.status(304).end();
+  }
+
+  res.type("application/json").send(body);
+};
+
+// Public, cacheable view model for a portfolio page (published version)
+export const getPublicPortfolio = async (req: Request, res: Response) => {
+  try {
+    const owner = await findProfileBySlug(req.params.slug);
+    if (!owner) {
+      return res.status(404).json({ error: UNAVAILABLE_MESSAGES[404] });
+    }
+
+    await sendPortfolio(
+      req,
+      res,
+      await loadPortfolioContent(owner),
+      "public, max-age=60, stale-while-revalidate=300"
+    );
+  } catch (error) {
+    console.error("Error in getPublicPortfolio:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Same view model built from the owner's draft; the preview token stands in
+// for a login so the link can be opened in any browser until it expires
+export const getPortfolioPreview = async (req: Request, res: Response) => {
+  try {
+    const token = typeof req.query.token === "string" ? req.query.token : "";
+    const userId = token ? verifyPreviewToken(token) : null;
+    if (!userId) {
+      return res.status(401).json({ error: "Invalid or expired preview token" });
+    }
+
+    const owner = await findProfileById(userId);
+    if (!owner) {
+      return res.status(404).json({ error: UNAVAILABLE_MESSAGES[404] });
+    }
+
+    res.setHeader("X-Robots-Tag", "noindex");
+    await sendPortfolio(
+      req,
+      res,
+      await loadPortfolioContent(owner, { draft: true }),
+      "private, no-store"
+    );
+  } catch (error) {
+    console.error("Error in getPortfolioPreview:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
@@ -0,0 +1,102 @@
+import { Response } from "express";
+import { AuthenticatedRequest } from "../middleware/authMiddleware.js";
+import { diffSettings } from "../services/builderRevisionService.js";
+import {
+  DEFAULT_BUILDER_SETTINGS,
+  findBuilderSettings,
+  pickSettingsColumns,
+} from "../services/builderSettingsService.js";
+import {
+  findActiveCv,
+  findProfileById,
+} from "../services/portfolioService.js";
+import {
+  createPreviewToken,
+  findPublication,
+  publishPortfolio,
+  unpublishPortfolio,
+} from "../services/publishService.js";
+
+// Live state of the caller's portfolio and whether the draft differs from it
+export const getPublication = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const owner = await findProfileById(userId);
+    if (!owner) return res.status(404).json({ error: "Profile not found" });
+
+    const [publication, draftSettings, draftCv] = await Promise.all([
+      findPublication(userId),
+      findBuilderSettings(userId),
+      findActiveCv(owner),
+    ]);
+
+    const changes = publication
+      ? diffSettings(
+          pickSettingsColumns(publication.settings ?? DEFAULT_BUILDER_SETTINGS),
+          pickSettingsColumns(draftSettings ?? DEFAULT_BUILDER_SETTINGS)
+        )
+      : [];
+
+    res.json({
+      published: publication?.published ?? false,
+      published_at: publication?.published_at ?? null,
+      unpublished_at: publication?.unpublished_at ?? null,
+      cv_id: publication?.cv_id ?? null,
+      draft_cv_id: draftCv?.id ?? null,
+      has_unpublished_changes:
+        !publication ||
+        changes.length > 0 ||
+        (draftCv?.id ?? null) !== publication.cv_id,
+      changes,
+    });
+  } catch (error) {
+    console.error("Error in getPublication:", error);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
+
+// Make the current draft settings and CV live
+export const publish = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const publication = await publishPortfolio(userId);
+    res.json({ message: "Portfolio published", publication });
+  } catch (error) {
+    console.error("Error in publish:", error);
+    res.status(500).json({ error: "Failed to publish portfolio" });
+  }
+};
+
+// Take the portfolio offline; visitors get 410 until the next publish
+export const unpublish = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const publication = await unpublishPortfolio(userId);
+    if (!publication) {
+      return res.status(409).json({ error: "Portfolio has never been published" });
+    }
+    res.json({ message: "Portfolio unpublished", publication });
+  } catch (error) {
+    console.error("Error in unpublish:", error);
+    res.status(500).json({ error: "Failed to unpublish portfolio" });
+  }
+};
+
+// Token for GET /public/preview?token=...
+export const issuePreviewToken = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.user?.id;
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    res.json(createPreviewToken(userId));
+  } catch (error) {
+    console.error("Error in issuePreviewToken:", error);
+    res.status(500).json({ error: "Failed to create preview token" });
+  }
+};
@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from "express";
+import { findActiveApiKey, touchApiKey } from "../services/apiKeyService.js";
+import { findProfileBySlug } from "../services/portfolioService.js";
+import { isFirstPartyOrigin } from "./domainMiddleware.js";
+
+// Gate for the public chat. The portfolio's own pages (platform origins and
+// verified custom domains) need no key; other sites must send a publishable
+// key (`X-Portfolio-Key` header or `api_key` body field) issued for this
+// portfolio and listing their origin.
+export const portfolioApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const key =
+    req.header("X-Portfolio-Key") ??
+    (typeof req.body?.api_key === "string" ? req.body.api_key : undefined);
+  const origin = req.header("Origin");
+
+  try {
+    if (!key) {
+      if (!origin || (await isFirstPartyOrigin(origin))) return next();
+      return res
+        .status(401)
+        .json({ error: "An API key is required to embed this chat" });
+    }
+
+    const apiKey = await findActiveApiKey(key);
+    if (!apiKey) {
+      return res.status(401).json({ error: "Invalid or revoked API key" });
+    }
+
+    const owner = await findProfileBySlug(req.params.clientName);
+    if (!owner || owner.id !== apiKey.user_id) {
+      return res
+        .status(403)
+        .json({ error: "API key does not belong to this portfolio" });
+    }
+
+    if (!origin || !apiKey.allowed_origins.includes(origin)) {
+      return res
+        .status(403)
+        .json({ error: "Origin is not allowed for this API key" });
+    }
+
+    touchApiKey(apiKey).catch((err) =>
+      console.error("Error recording API key use:", err)
+    );
+    next();
+  } catch (err) {
+    console.error("API key check error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+};
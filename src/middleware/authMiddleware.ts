@@ -1,19 +1,31 @@
 import { Request, Response, NextFunction } from 'express';
 import { supabase } from "../config/supabaseClient.js";
 import { User } from '@supabase/supabase-js';
+import { findUserRole, Role } from '../services/accountService.js';
+import { accessTokenFrom, passesCsrfCheck, TokenSource } from '../services/sessionService.js';
 
 // Extend Request interface
 export interface AuthenticatedRequest extends Request {
   user?: User;
   file?: Express.Multer.File;
+  accessToken?: string;
+  authSource?: TokenSource;
+  role?: Role;
 }
 
+// Accepts `Authorization: Bearer <jwt>` or the session cookies set at login.
+// Cookie-authenticated writes also need the CSRF header.
 export const authenticate = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-  const token = req.headers['authorization']?.replace('Bearer ', '');
+  const credentials = accessTokenFrom(req);
   
-  if (!token) {
+  if (!credentials) {
     return res.status(401).json({ error: 'No token provided' });
   }
+
+  const { token, source } = credentials;
+  if (source === 'cookie' && !passesCsrfCheck(req)) {
+    return res.status(403).json({ error: 'Missing or invalid CSRF token' });
+  }
   
   try {
     const { data, error } = await supabase.auth.getUser(token);
@@ -23,9 +35,41 @@ export const authenticate = async (req: AuthenticatedRequest, res: Response, nex
     }
     
     req.user = data.user;
+    req.accessToken = token;
+    req.authSource = source;
     next();
   } catch (err) {
     console.error('Authentication error:', err);
     return res.status(401).json({ error: 'Authentication failed' });
   }
-};
\ No newline at end of file
+};
+// Vercel cron invocations carry `Authorization: Bearer $CRON_SECRET`
+export const authenticateCron = (req: Request, res: Response, next: NextFunction) => {
+  const secret = process.env.CRON_SECRET;
+  const token = req.headers['authorization']?.replace('Bearer ', '');
+
+  if (!secret || token !== secret) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  next();
+};
+
+// Use after `authenticate`. Lets the request through when the caller has one
+// of `roles`; the resolved role is left on `req.role`.
+export const requireRole = (...roles: Role[]) =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    try {
+      req.role = await findUserRole(req.user);
+      if (!roles.includes(req.role)) {
+        return res.status(403).json({ error: 'Forbidden' });
+      }
+      next();
+    } catch (err) {
+      console.error('Role check error:', err);
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+  };
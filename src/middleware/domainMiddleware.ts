@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from "express";
+import { CorsOptionsDelegate } from "cors";
+import { findOwnerByHost, isVerifiedDomainOrigin } from "../services/domainService.js";
+
+// Slug-free paths a custom domain answers, mapped onto the slug routes
+const HOST_ROUTES: Record<string, (slug: string) => string> = {
+  "GET /portfolio": (slug) => `/public/portfolios/${slug}`,
+  "GET /profile": (slug) => `/auth/${slug}`,
+  "GET /sections": (slug) => `/pdf/${slug}/sections`,
+  "POST /chat": (slug) => `/pdf/${slug}`,
+};
+
+// On a verified custom domain, rewrites e.g. `POST /chat` to
+// `POST /pdf/<slug>` so the existing handlers (and the chat rate limiter)
+// serve it unchanged. Other hosts and paths pass straight through.
+export const customDomainRouting = async (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) => {
+  const route = HOST_ROUTES[`${req.method} ${req.path}`];
+  if (!route) return next();
+
+  try {
+    const owner = await findOwnerByHost(req.hostname);
+    if (owner) {
+      const query = req.url.slice(req.path.length);
+      req.url = route(encodeURIComponent(owner.user_name)) + query;
+    }
+  } catch (error) {
+    console.error("Error resolving custom domain:", error);
+  }
+  next();
+};
+
+const STATIC_ORIGINS = (
+  process.env.CORS_ORIGINS ??
+  "https://websites-portfolios.vercel.app,http://localhost:5173"
+)
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+// Platform origins and verified custom domains: the portfolio's own pages
+export const isFirstPartyOrigin = async (origin: string): Promise<boolean> =>
+  STATIC_ORIGINS.includes(origin) || (await isVerifiedDomainOrigin(origin));
+
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+
+// Preflights are checked against the method they announce
+const requestMethod = (req: Request) =>
+  req.method === "OPTIONS"
+    ? req.header("Access-Control-Request-Method")?.toUpperCase()
+    : req.method;
+
+// Routes third-party sites may call (the embeddable widget). Any origin may
+// reach them, without cookies; the chat checks the API key's allowed origins.
+const isEmbedRequest = (req: Request) => {
+  const method = requestMethod(req);
+  return (
+    (method === "GET" && req.path.startsWith("/embed/")) ||
+    (method === "POST" && /^\/pdf\/[^/]+$/.test(req.path))
+  );
+};
+
+// Public portfolio reads a custom domain's pages make, on either the
+// slug-free paths or the slug routes they're rewritten to
+const PUBLIC_PORTFOLIO_PATHS = [
+  /^\/(portfolio|profile|sections)$/,
+  /^\/public\/portfolios\/[^/]+$/,
+  /^\/pdf\/[^/]+\/sections$/,
+  /^\/auth\/[^/]+$/,
+];
+
+const isPublicPortfolioRequest = (req: Request) =>
+  requestMethod(req) === "GET" &&
+  PUBLIC_PORTFOLIO_PATHS.some((pattern) => pattern.test(req.path));
+
+// Credentials only for the platform's own origins. Any user can verify a
+// domain, so custom domains get the public portfolio and chat routes
+// without cookies, never the authenticated API.
+export const corsOptions: CorsOptionsDelegate<Request> = (req, callback) => {
+  if (isEmbedRequest(req)) {
+    return callback(null, { origin: true, methods: METHODS, credentials: false });
+  }
+
+  const origin = req.header("Origin");
+  // Same-origin and non-browser requests carry no Origin header
+  if (!origin) return callback(null, { origin: false });
+
+  if (STATIC_ORIGINS.includes(origin)) {
+    return callback(null, { origin: true, methods: METHODS, credentials: true });
+  }
+
+  const isChat = requestMethod(req) === "POST" && req.path === "/chat";
+  if (!isChat && !isPublicPortfolioRequest(req)) {
+    return callback(null, { origin: false });
+  }
+
+  isVerifiedDomainOrigin(origin)
+    .then((allowed) =>
+      callback(null, { origin: allowed, methods: METHODS, credentials: false })
+    )
+    .catch((error) => {
+      console.error("Error checking CORS origin:", error);
+      callback(null, { origin: false });
+    });
+};
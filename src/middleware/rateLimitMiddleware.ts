@@ -0,0 +1,97 @@
+import { Request, Response, NextFunction } from "express";
+import { findProfileBySlug } from "../services/portfolioService.js";
+import {
+  getChatLimits,
+  getRateLimitStore,
+  getTokenUsage,
+} from "../services/rateLimit/index.js";
+
+const WINDOW_MS = 60 * 1000;
+
+const secondsUntil = (epochMs: number) =>
+  Math.max(1, Math.ceil((epochMs - Date.now()) / 1000));
+
+// Standard RateLimit-* headers (IETF draft) for the tightest limit in play
+const setRateLimitHeaders = (
+  res: Response,
+  limit: number,
+  remaining: number,
+  resetAt: number
+) => {
+  res.setHeader("RateLimit-Limit", String(limit));
+  res.setHeader("RateLimit-Remaining", String(Math.max(0, remaining)));
+  res.setHeader("RateLimit-Reset", String(secondsUntil(resetAt)));
+};
+
+const tooManyRequests = (res: Response, resetAt: number, error: string) => {
+  res.setHeader("Retry-After", String(secondsUntil(resetAt)));
+  return res.status(429).json({ error });
+};
+
+// Guards the public portfolio chat: per-IP and per-portfolio request limits
+// plus the owner's daily token budget. Limits come from the owner's builder
+// settings, capped by the platform defaults.
+export const portfolioChatRateLimit = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const slug = req.params.clientName?.toLowerCase();
+  if (!slug) return next();
+
+  try {
+    const owner = await findProfileBySlug(slug);
+    // Unknown slugs fall through to the controller's 404
+    if (!owner) return next();
+
+    const limits = await getChatLimits(owner.id);
+    const store = getRateLimitStore();
+
+    const budget = await getTokenUsage(owner.id);
+    if (budget.count >= limits.dailyTokenBudget) {
+      return tooManyRequests(
+        res,
+        budget.resetAt,
+        "This portfolio's assistant has reached its daily limit. Please try again tomorrow."
+      );
+    }
+
+    const ip = req.ip ?? req.socket.remoteAddress ?? "unknown";
+    const checks = [
+      {
+        limit: limits.perIpPerMinute,
+        state: await store.increment(`ip:${slug}:${ip}`, 1, WINDOW_MS),
+      },
+      {
+        limit: limits.perPortfolioPerMinute,
+        state: await store.increment(`portfolio:${slug}`, 1, WINDOW_MS),
+      },
+    ];
+
+    const tightest = checks.reduce((a, b) =>
+      b.limit - b.state.count < a.limit - a.state.count ? b : a
+    );
+    setRateLimitHeaders(
+      res,
+      tightest.limit,
+      tightest.limit - tightest.state.count,
+      tightest.state.resetAt
+    );
+
+    if (tightest.state.count > tightest.limit) {
+      return tooManyRequests(
+        res,
+        tightest.state.resetAt,
+        "Too many requests. Please slow down."
+      );
+    }
+
+    next();
+  } catch (err) {
+    // Fails open on purpose: while the store (or the profile lookup) is
+    // down, chat requests go through unlimited rather than the chat going
+    // down with it
+    console.error("Rate limit error:", err);
+    next();
+  }
+};
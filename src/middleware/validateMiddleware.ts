@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+import { ZodError, ZodTypeAny } from 'zod';
+
+type RequestPart = 'body' | 'query' | 'params';
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export const formatZodError = (error: ZodError): FieldError[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }));
+
+// Validates (and normalises) one part of the request against a zod schema.
+// Invalid input gets a 422 with one entry per failing field; a malformed path
+// parameter (e.g. an id that isn't a UUID) is a plain 400.
+export const validate =
+  (schema: ZodTypeAny, part: RequestPart = 'body') =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const result = schema.safeParse(req[part]);
+
+    if (!result.success) {
+      return res.status(part === 'params' ? 400 : 422).json({
+        error: 'Validation failed',
+        errors: formatZodError(result.error),
+      });
+    }
+
+    req[part] = result.data;
+    next();
+  };
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import {
+  deleteUserAccount,
+  getUser,
+  listAudit,
+  listUsers,
+  suspendUser,
+  unsuspendUser,
+} from "../controllers/adminController.js";
+import { authenticate, requireRole } from "../middleware/authMiddleware.js";
+import { validate } from "../middleware/validateMiddleware.js";
+import {
+  listAuditQuerySchema,
+  listUsersQuerySchema,
+  suspendUserSchema,
+} from "../schemas/adminSchemas.js";
+import { uuidParamsSchema } from "../schemas/commonSchemas.js";
+
+const router = Router();
+
+// Platform administration; every action lands in the audit log
+router.use(authenticate, requireRole("admin"));
+
+router.get("/users", validate(listUsersQuerySchema, "query"), listUsers);
+router.get("/users/:id", validate(uuidParamsSchema, "params"), getUser);
+router.post(
+  "/users/:id/suspend",
+  validate(uuidParamsSchema, "params"),
+  validate(suspendUserSchema),
+  suspendUser
+);
+router.post("/users/:id/unsuspend", validate(uuidParamsSchema, "params"), unsuspendUser);
+router.delete("/users/:id", validate(uuidParamsSchema, "params"), deleteUserAccount);
+router.get("/audit", validate(listAuditQuerySchema, "query"), listAudit);
+
+export default router;
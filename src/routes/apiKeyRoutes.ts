@@ -0,0 +1,21 @@
+import { Router } from "express";
+import {
+  deleteApiKey,
+  getApiKeys,
+  issueApiKey,
+} from "../controllers/apiKeyController.js";
+import { authenticate } from "../middleware/authMiddleware.js";
+import { validate } from "../middleware/validateMiddleware.js";
+import { createApiKeySchema } from "../schemas/apiKeySchemas.js";
+import { numericIdParamsSchema } from "../schemas/commonSchemas.js";
+
+const router = Router();
+
+// Owners managing the publishable keys for their embedded chat
+router.use(authenticate);
+
+router.get("/", getApiKeys);
+router.post("/", validate(createApiKeySchema), issueApiKey);
+router.delete("/:id", validate(numericIdParamsSchema, "params"), deleteApiKey);
+
+export default router;
@@ -1,19 +1,81 @@
 import { Router } from 'express';
-import { register, login, getProfile, logout, deleteUser, getClientData, confirmEmail, confirmedEmail, authCallback } from '../controllers/authController.js';
+import {
+  register,
+  login,
+  getProfile,
+  logout,
+  refreshSession,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  changeEmail,
+  confirmEmailChange,
+  resendConfirmation,
+  sendMagicLink,
+  verifyMagicLink,
+  magicLinkCallback,
+  deleteUser,
+  cancelDeleteUser,
+  exportAccount,
+  getClientData,
+  confirmEmail,
+  confirmedEmail,
+  authCallback
+} from '../controllers/authController.js';
+import {
+  startOAuth,
+  oauthCallback,
+  linkOAuthProvider,
+  getIdentities,
+  unlinkOAuthProvider
+} from '../controllers/oauthController.js';
 import { authenticate } from '../middleware/authMiddleware.js';
+import { validate } from '../middleware/validateMiddleware.js';
+import {
+  changeEmailSchema,
+  changePasswordSchema,
+  confirmEmailChangeSchema,
+  emailOnlySchema,
+  magicLinkVerifySchema,
+  resetPasswordSchema
+} from '../schemas/authSchemas.js';
 const router = Router();
 
 router.post('/register', register);
+router.post('/resend-confirmation', validate(emailOnlySchema), resendConfirmation);
 router.get('/confirm-email', confirmEmail);
 router.get('/confirmed-email', confirmedEmail);
 router.get('/callback', authCallback);
 
 
 router.post('/login', login);
+router.post('/magic-link', validate(emailOnlySchema), sendMagicLink);
+router.post('/magic-link/verify', validate(magicLinkVerifySchema), verifyMagicLink);
+router.get('/magic-link/callback', magicLinkCallback);
 router.get('/profile-me',authenticate ,getProfile);
+router.get('/export', authenticate, exportAccount);
 router.post('/logout', logout);
+router.post('/refresh', refreshSession);
+
+// Password and email changes
+router.post('/forgot-password', validate(emailOnlySchema), forgotPassword);
+router.post('/reset-password', validate(resetPasswordSchema), resetPassword);
+router.post('/change-password', authenticate, validate(changePasswordSchema), changePassword);
+router.post('/change-email', authenticate, validate(changeEmailSchema), changeEmail);
+router.post('/change-email/confirm', validate(confirmEmailChangeSchema), confirmEmailChange);
+
+// Sign in with GitHub, Google or LinkedIn, and link more providers to an
+// existing account
+router.get('/oauth/:provider', startOAuth);
+router.get('/oauth/:provider/callback', oauthCallback);
+router.post('/oauth/:provider/link', authenticate, linkOAuthProvider);
+router.get('/identities', authenticate, getIdentities);
+router.delete('/identities/:provider', authenticate, unlinkOAuthProvider);
+
 router.get('/:slug',  getClientData);
 
-// From admins only
+// Self-service with a grace period; admins delete other accounts
+// immediately via DELETE /api/admin/users/:id
 router.delete('/delete-user',authenticate, deleteUser);
+router.post('/delete-user/cancel', authenticate, cancelDeleteUser);
 export default router;
@@ -3,10 +3,31 @@ import multer from 'multer';
 import {
   getBuilderSettings,
   saveBuilderSettings,
+  patchBuilderSettings,
   deleteBuilderSettings,
+  listSettingsRevisions,
+  getSettingsRevision,
+  restoreSettingsRevision,
+  exportBuilderSettings,
+  importBuilderSettings,
+  listThemes,
+  applyTheme,
   uploadAvatar
 } from '../controllers/builderController.js';
+import {
+  getPublication,
+  issuePreviewToken,
+  publish,
+  unpublish
+} from '../controllers/publishController.js';
 import { authenticate } from '../middleware/authMiddleware.js';
+import { validate } from '../middleware/validateMiddleware.js';
+import {
+  builderSettingsPatchSchema,
+  builderSettingsSchema,
+  listRevisionsQuerySchema
+} from '../schemas/builderSettingsSchema.js';
+import { numericIdParamsSchema } from '../schemas/commonSchemas.js';
 
 const router = express.Router();
 
@@ -30,8 +51,26 @@ router.use(authenticate);
 
 // Routes
 router.get('/settings', getBuilderSettings);
-router.post('/settings', saveBuilderSettings);
+router.post('/settings', validate(builderSettingsSchema), saveBuilderSettings);
+router.patch('/settings', validate(builderSettingsPatchSchema), patchBuilderSettings);
 router.delete('/settings', deleteBuilderSettings);
+router.get('/settings/revisions', validate(listRevisionsQuerySchema, 'query'), listSettingsRevisions);
+router.get('/settings/revisions/:id', validate(numericIdParamsSchema, 'params'), getSettingsRevision);
+router.post(
+  '/settings/revisions/:id/restore',
+  validate(numericIdParamsSchema, 'params'),
+  restoreSettingsRevision
+);
+router.get('/settings/export', exportBuilderSettings);
+router.post('/settings/import', importBuilderSettings);
+router.get('/themes', listThemes);
+router.post('/themes/:id/apply', applyTheme);
 router.post('/upload-avatar', upload.single('avatar'), uploadAvatar);
 
+// Draft vs published: the routes above edit the draft
+router.get('/publication', getPublication);
+router.post('/publish', publish);
+router.post('/unpublish', unpublish);
+router.post('/preview-token', issuePreviewToken);
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import {
+  getConversation,
+  listConversations,
+} from "../controllers/conversationController.js";
+import { authenticate } from "../middleware/authMiddleware.js";
+import { validate } from "../middleware/validateMiddleware.js";
+import { listConversationsQuerySchema } from "../schemas/conversationSchemas.js";
+import { uuidParamsSchema } from "../schemas/commonSchemas.js";
+
+const router = Router();
+
+// Owners reading what visitors asked their assistant
+router.use(authenticate);
+
+router.get("/", validate(listConversationsQuerySchema, "query"), listConversations);
+router.get("/:id", validate(uuidParamsSchema, "params"), getConversation);
+
+export default router;
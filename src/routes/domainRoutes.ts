@@ -0,0 +1,23 @@
+import { Router } from "express";
+import {
+  checkDomain,
+  createDomain,
+  deleteDomain,
+  getDomains,
+} from "../controllers/domainController.js";
+import { authenticate } from "../middleware/authMiddleware.js";
+import { validate } from "../middleware/validateMiddleware.js";
+import { addDomainSchema } from "../schemas/domainSchemas.js";
+import { numericIdParamsSchema } from "../schemas/commonSchemas.js";
+
+const router = Router();
+
+// Owners managing the custom domains their portfolio is served on
+router.use(authenticate);
+
+router.get("/", getDomains);
+router.post("/", validate(addDomainSchema), createDomain);
+router.post("/:id/verify", validate(numericIdParamsSchema, "params"), checkDomain);
+router.delete("/:id", validate(numericIdParamsSchema, "params"), deleteDomain);
+
+export default router;
@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { getEmbedConfig } from "../controllers/embedController.js";
+
+const router = Router();
+
+// Public, callable from any origin (see corsOptions)
+router.get("/:slug/config", getEmbedConfig);
+
+export default router;
@@ -0,0 +1,13 @@
+import { Router } from "express";
+import { drainJobs, purgeAccounts } from "../controllers/jobsController.js";
+import { authenticateCron } from "../middleware/authMiddleware.js";
+
+const router = Router();
+
+// Called by Vercel cron (GET) or manually (POST)
+router.get("/jobs/drain", authenticateCron, drainJobs);
+router.post("/jobs/drain", authenticateCron, drainJobs);
+router.get("/accounts/purge", authenticateCron, purgeAccounts);
+router.post("/accounts/purge", authenticateCron, purgeAccounts);
+
+export default router;
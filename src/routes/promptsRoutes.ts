@@ -1,17 +1,63 @@
 import { Router } from "express";
-import { upload, uploadCv, convertPdfToMd } from "../controllers/promptsController.js";
+import {
+  upload,
+  uploadCv,
+  convertPdfToMd,
+  getParsedCv,
+  getCvDownloadUrl,
+  getCvStatus,
+  retryCv,
+  getPortfolioCvSections,
+} from "../controllers/promptsController.js";
+import {
+  deleteCv,
+  diffCvs,
+  getCv,
+  listCvs,
+  setActiveCv,
+} from "../controllers/cvController.js";
 import { authenticate } from "../middleware/authMiddleware.js";
+import { validate } from "../middleware/validateMiddleware.js";
+import { numericIdParamsSchema } from "../schemas/commonSchemas.js";
+import { diffCvsQuerySchema, setActiveCvSchema } from "../schemas/cvSchemas.js";
+import { portfolioChatSchema } from "../schemas/conversationSchemas.js";
 import { portfolioChatWithPath } from "../controllers/aiController.js";
+import { portfolioChatRateLimit } from "../middleware/rateLimitMiddleware.js";
+import { portfolioApiKey } from "../middleware/apiKeyMiddleware.js";
 
 const router = Router();
 
-// Route for uploading PDF and generating prompts
-// Step 1: upload PDF + insert row
+// Route for uploading a CV (PDF, DOCX, TXT/MD or LinkedIn export ZIP)
+// Step 1: upload + queue background processing
 router.post("/cv/upload", authenticate, upload.single("file"), uploadCv);
+router.get("/cv/:id/status", authenticate, validate(numericIdParamsSchema, "params"), getCvStatus);
+router.post("/cv/:id/retry", authenticate, validate(numericIdParamsSchema, "params"), retryCv);
 
-// Step 2: generate prompts on demand
+// Or: upload and convert synchronously
 router.post("/cv/prompts", authenticate,upload.single("file"), convertPdfToMd);
 
-router.post("/:clientName", portfolioChatWithPath);
+// Managing uploaded CV versions
+router.get("/cv", authenticate, listCvs);
+router.get("/cv/diff", authenticate, validate(diffCvsQuerySchema, "query"), diffCvs);
+router.put("/cv/active", authenticate, validate(setActiveCvSchema), setActiveCv);
+router.get("/cv/:id", authenticate, validate(numericIdParamsSchema, "params"), getCv);
+router.delete("/cv/:id", authenticate, validate(numericIdParamsSchema, "params"), deleteCv);
+
+// Signed URL for the original file
+router.get("/cv/:id/download", authenticate, validate(numericIdParamsSchema, "params"), getCvDownloadUrl);
+
+// Structured CV sections (owner view and public portfolio view)
+router.get("/cv/:id/parsed", authenticate, validate(numericIdParamsSchema, "params"), getParsedCv);
+router.get("/:clientName/sections", getPortfolioCvSections);
+
+// Public chat. The key check and validation run first so rejected requests
+// don't use up the portfolio's rate limit.
+router.post(
+  "/:clientName",
+  portfolioApiKey,
+  validate(portfolioChatSchema),
+  portfolioChatRateLimit,
+  portfolioChatWithPath
+);
 
 export default router;
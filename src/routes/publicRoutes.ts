@@ -0,0 +1,13 @@
+import { Router } from "express";
+import {
+  getPortfolioPreview,
+  getPublicPortfolio,
+} from "../controllers/publicController.js";
+
+const router = Router();
+
+router.get("/portfolios/:slug", getPublicPortfolio);
+// Draft view, authorised by a token from POST /api/builder/preview-token
+router.get("/preview", getPortfolioPreview);
+
+export default router;
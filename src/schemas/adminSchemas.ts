@@ -0,0 +1,23 @@
+import { z } from "zod";
+
+const page = {
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+};
+
+export const listUsersQuerySchema = z.object({
+  // Matched against name, user_name and email
+  q: z.string().trim().max(100).optional(),
+  suspended: z.enum(["true", "false"]).optional(),
+  ...page,
+});
+
+export const suspendUserSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const listAuditQuerySchema = z.object({
+  actor_id: z.string().uuid().optional(),
+  target_user_id: z.string().uuid().optional(),
+  ...page,
+});
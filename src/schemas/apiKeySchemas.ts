@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+// Browsers send bare origins; normalise whatever the owner pasted to one
+const originSchema = z
+  .string()
+  .trim()
+  .max(300)
+  .transform((value, ctx) => {
+    try {
+      const url = new URL(value);
+      const local = ["localhost", "127.0.0.1"].includes(url.hostname);
+      if (url.protocol === "https:" || (local && url.protocol === "http:")) {
+        return url.origin;
+      }
+    } catch {
+      // fall through
+    }
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Must be an https origin (http is only allowed for localhost)",
+    });
+    return z.NEVER;
+  });
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  allowed_origins: z.array(originSchema).min(1).max(20),
+});
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+const emailSchema = z.string().trim().toLowerCase().email().max(320);
+const passwordSchema = z.string().min(8).max(72);
+// Supabase emails a 6-digit code alongside the link
+const otpSchema = z.string().trim().regex(/^\d{6}$/, "Must be a 6-digit code");
+
+export const emailOnlySchema = z.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  email: emailSchema,
+  token: otpSchema,
+  password: passwordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  current_password: z.string().min(1),
+  new_password: passwordSchema,
+});
+
+export const changeEmailSchema = z.object({
+  new_email: emailSchema,
+  password: z.string().min(1),
+});
+
+export const confirmEmailChangeSchema = z.object({
+  email: emailSchema,
+  token: otpSchema,
+});
+
+export const magicLinkVerifySchema = z.object({
+  email: emailSchema,
+  token: otpSchema,
+});
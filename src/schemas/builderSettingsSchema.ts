@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { EXPORT_FORMAT, EXPORT_VERSION } from "../services/settingsExport.js";
+import { getAllowedModels, isAllowedModel } from "../services/llm/index.js";
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const CHANNEL = String.raw`\s*(?:25[0-5]|2[0-4]\d|1?\d?\d)\s*`;
+const ALPHA = String.raw`\s*(?:0|1|0?\.\d+)\s*`;
+const RGB_COLOR = new RegExp(
+  `^rgba?\\(${CHANNEL},${CHANNEL},${CHANNEL}(?:,${ALPHA})?\\)$`,
+  "i"
+);
+
+export const colorSchema = z
+  .string()
+  .trim()
+  .refine((value) => HEX_COLOR.test(value) || RGB_COLOR.test(value), {
+    message: "Must be a hex (#rrggbb) or rgb()/rgba() colour",
+  });
+
+export const GRADIENT_DIRECTIONS = [
+  "to top",
+  "to bottom",
+  "to left",
+  "to right",
+  "to top left",
+  "to top right",
+  "to bottom left",
+  "to bottom right",
+] as const;
+
+export const SOCIAL_ICONS = [
+  "github",
+  "gitlab",
+  "linkedin",
+  "twitter",
+  "x",
+  "instagram",
+  "facebook",
+  "youtube",
+  "dribbble",
+  "behance",
+  "medium",
+  "stackoverflow",
+  "website",
+  "email",
+] as const;
+
+export const MAX_PROMPTS = 6;
+export const MAX_PROMPT_LENGTH = 200;
+export const MAX_SOCIALS = 12;
+
+const ALLOWED_LINK_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+export const socialSchema = z.object({
+  label: z.string().trim().min(1, "Label is required").max(40),
+  href: z
+    .string()
+    .trim()
+    .max(500)
+    .refine(
+      (value) => {
+        try {
+          return ALLOWED_LINK_PROTOCOLS.includes(new URL(value).protocol);
+        } catch {
+          return false;
+        }
+      },
+      { message: "Must be an http, https or mailto link" }
+    ),
+  icon: z.enum(SOCIAL_ICONS),
+});
+
+const limitSchema = z.number().int().min(0).nullable().optional();
+
+// Runtime counterpart of the BuilderSettings interface. Unknown keys (id,
+// user_id, timestamps echoed back by the client) are stripped.
+export const builderSettingsObjectSchema = z.object({
+  primary_color: colorSchema,
+  bg_type: z.enum(["solid", "gradient"]),
+  bg_color: colorSchema,
+  gradient_from: colorSchema.optional(),
+  gradient_to: colorSchema.optional(),
+  gradient_direction: z.enum(GRADIENT_DIRECTIONS).optional(),
+  input_color: colorSchema,
+  border_color: colorSchema,
+  social_btn_color: colorSchema,
+  avatar_url: z.string().url().max(1000).nullable().optional(),
+  avatar_variants: z
+    .record(z.string().regex(/^\d+$/), z.string().url().max(1000))
+    .nullable()
+    .optional(),
+  prompts: z
+    .array(z.string().trim().min(1).max(MAX_PROMPT_LENGTH))
+    .max(MAX_PROMPTS, `At most ${MAX_PROMPTS} prompts`)
+    .default([]),
+  socials: z
+    .array(socialSchema)
+    .max(MAX_SOCIALS, `At most ${MAX_SOCIALS} social links`)
+    .default([]),
+  ai_model: z
+    .string()
+    .trim()
+    .min(1)
+    .max(100)
+    .refine(isAllowedModel, () => ({
+      message: `Model must be one of: ${getAllowedModels().join(", ")}`,
+    }))
+    .nullable()
+    .optional(),
+  ai_temperature: z.number().min(0).max(2).nullable().optional(),
+  chat_rate_limit_per_ip: limitSchema,
+  chat_rate_limit_per_portfolio: limitSchema,
+  daily_token_budget: limitSchema,
+  show_email: z.boolean().optional(),
+});
+
+// PATCH bodies: any subset of fields. `socials` and `prompts` take either a
+// full array (replace) or a merge-patch object keyed by social label / prompt
+// index, where null removes an entry.
+export const builderSettingsPatchSchema = builderSettingsObjectSchema
+  .omit({ prompts: true, socials: true })
+  .partial()
+  .extend({
+    prompts: z
+      .union([
+        z.array(z.string()),
+        z.record(z.string().regex(/^\d+$/, "Keys must be prompt indexes"), z.string().nullable()),
+      ])
+      .optional(),
+    socials: z
+      .union([
+        z.array(z.unknown()),
+        z.record(z.string(), socialSchema.partial().nullable()),
+      ])
+      .optional(),
+  });
+
+export const builderSettingsSchema = builderSettingsObjectSchema.superRefine(
+  (settings, ctx) => {
+    if (settings.bg_type !== "gradient") return;
+    for (const field of ["gradient_from", "gradient_to"] as const) {
+      if (!settings[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: "Required when bg_type is gradient",
+        });
+      }
+    }
+  }
+);
+
+export const listRevisionsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// A settings export after migrateSettingsExport has brought it up to date
+export const settingsExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  exported_at: z.string().nullable().optional(),
+  settings: builderSettingsSchema,
+  avatar: z
+    .object({ url: z.string().url().max(1000) })
+    .nullable()
+    .optional(),
+});
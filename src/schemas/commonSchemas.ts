@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+export const uuidSchema = z.string().uuid();
+
+// `/:id` routes whose id is a UUID
+export const uuidParamsSchema = z.object({
+  id: uuidSchema,
+});
+
+// `/:id` routes whose id is a bigserial
+export const numericIdParamsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { MAX_MESSAGE_LENGTH } from "../services/conversationService.js";
+import { uuidSchema } from "./commonSchemas.js";
+
+export const listConversationsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Public portfolio chat. History lives on the server; older clients that
+// still post a `messages` array only have their newest entry used.
+export const portfolioChatSchema = z
+  .object({
+    message: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH).optional(),
+    messages: z
+      .array(z.object({ content: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH) }))
+      .optional(),
+    conversation_id: uuidSchema.nullable().optional(),
+  })
+  .refine((body) => body.message ?? body.messages?.length, {
+    message: "No message content provided",
+    path: ["message"],
+  });
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+const cvId = z.coerce.number().int().positive();
+
+export const setActiveCvSchema = z.object({
+  // null falls back to the latest processed upload
+  cvId: cvId.nullable(),
+});
+
+export const diffCvsQuerySchema = z.object({
+  from: cvId,
+  to: cvId,
+});
@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { normalizeHostname } from "../services/domainService.js";
+
+export const addDomainSchema = z.object({
+  hostname: z
+    .string()
+    .max(300)
+    .transform((value, ctx) => {
+      const hostname = normalizeHostname(value);
+      if (!hostname) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Must be a domain name you own, e.g. portfolio.example.com",
+        });
+        return z.NEVER;
+      }
+      return hostname;
+    }),
+});
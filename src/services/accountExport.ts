@@ -0,0 +1,135 @@
+import JSZip from "jszip";
+import { adminSupabase } from "../config/supabaseClient.js";
+import { AVATAR_BUCKET } from "./avatarService.js";
+import { downloadCvFile } from "./cv/storage.js";
+import { sanitizeFileName } from "../utils/fileNames.js";
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+const rows = async (table: string, column: string, userId: string, columns = "*") => {
+  const { data, error } = await adminSupabase
+    .from(table)
+    .select(columns)
+    .eq(column, userId);
+  if (error) throw error;
+  return (data ?? []) as unknown as Record<string, unknown>[];
+};
+
+// ZIP of everything the service holds about a user (GDPR access request):
+// profile, settings and their history, CV files with extracted text and
+// parsed sections, visitor conversations, domains, API key metadata and
+// avatar images. Files that can no longer be downloaded are listed in
+// manifest.json instead of failing the export.
+export const buildAccountExport = async (userId: string): Promise<Buffer> => {
+  const zip = new JSZip();
+  const missing: string[] = [];
+
+  const [profile] = await rows("profiles", "id", userId);
+  zip.file("profile.json", json(profile ?? null));
+
+  const [settings] = await rows("builder_settings", "user_id", userId);
+  zip.file("settings/current.json", json(settings ?? null));
+  zip.file(
+    "settings/revisions.json",
+    json(await rows("builder_settings_revisions", "user_id", userId))
+  );
+  const [publication] = await rows("published_portfolios", "user_id", userId);
+  zip.file("settings/published.json", json(publication ?? null));
+
+  zip.file(
+    "domains.json",
+    json(
+      await rows(
+        "custom_domains",
+        "user_id",
+        userId,
+        "hostname, verified_at, last_checked_at, created_at"
+      )
+    )
+  );
+  zip.file(
+    "api-keys.json",
+    json(
+      await rows(
+        "portfolio_api_keys",
+        "user_id",
+        userId,
+        "name, key_prefix, allowed_origins, created_at, last_used_at, revoked_at"
+      )
+    )
+  );
+
+  const uploads = await rows(
+    "cv_uploads",
+    "user_id",
+    userId,
+    "id, original_name, stored_path, status, extracted_text, parsed_cv, summary, ocr_report, created_at, updated_at"
+  );
+  for (const upload of uploads) {
+    const { stored_path, extracted_text, parsed_cv, ...meta } = upload;
+    const folder = `cvs/${upload.id}`;
+    zip.file(`${folder}/upload.json`, json(meta));
+    if (typeof extracted_text === "string") {
+      zip.file(`${folder}/extracted.md`, extracted_text);
+    }
+    if (parsed_cv) zip.file(`${folder}/parsed.json`, json(parsed_cv));
+
+    if (typeof stored_path === "string") {
+      try {
+        zip.file(
+          `${folder}/${sanitizeFileName(String(upload.original_name ?? ""), "cv")}`,
+          await downloadCvFile(stored_path)
+        );
+      } catch (downloadError) {
+        console.error(`Export: could not download ${stored_path}:`, downloadError);
+        missing.push(stored_path);
+      }
+    }
+  }
+
+  const conversations = await rows("chat_conversations", "owner_id", userId);
+  for (const conversation of conversations) {
+    const { data: messages, error } = await adminSupabase
+      .from("chat_messages")
+      .select("role, content, created_at")
+      .eq("conversation_id", conversation.id)
+      .order("id", { ascending: true });
+    if (error) throw error;
+    zip.file(
+      `conversations/${conversation.id}.json`,
+      json({ ...conversation, messages: messages ?? [] })
+    );
+  }
+
+  const { data: avatars, error: avatarError } = await adminSupabase.storage
+    .from(AVATAR_BUCKET)
+    .list(userId, { limit: 1000 });
+  if (avatarError) throw avatarError;
+  for (const avatar of avatars ?? []) {
+    const storedPath = `${userId}/${avatar.name}`;
+    const { data, error } = await adminSupabase.storage
+      .from(AVATAR_BUCKET)
+      .download(storedPath);
+    if (error) {
+      missing.push(storedPath);
+      continue;
+    }
+    zip.file(`avatars/${avatar.name}`, Buffer.from(await data.arrayBuffer()));
+  }
+
+  zip.file(
+    "manifest.json",
+    json({
+      exported_at: new Date().toISOString(),
+      user_id: userId,
+      cv_count: uploads.length,
+      conversation_count: conversations.length,
+      missing_files: missing,
+    })
+  );
+
+  return zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+  });
+};
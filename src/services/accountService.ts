@@ -0,0 +1,204 @@
+import { adminSupabase } from "../config/supabaseClient.js";
+import { AVATAR_BUCKET, removeAvatarFiles } from "./avatarService.js";
+import { CV_BUCKET, removeCvFiles } from "./cv/storage.js";
+
+export const ROLES = ["owner", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+// JWT claim (app_metadata.role, set server-side only) wins over the profile
+export const findUserRole = async (user: {
+  id: string;
+  app_metadata?: Record<string, unknown>;
+}): Promise<Role> => {
+  const claim = user.app_metadata?.role;
+  if (ROLES.includes(claim as Role)) return claim as Role;
+
+  const { data, error } = await adminSupabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle();
+  if (error) throw error;
+  return ROLES.includes(data?.role) ? data!.role : "owner";
+};
+
+// Rows owned by a user, children first. Most of these also cascade from
+// auth.users, but not every table has that foreign key. cv_jobs and
+// cv_chunks have no owner column; they cascade from cv_uploads.
+const OWNED_ROWS: Array<[table: string, column: string]> = [
+  ["chat_conversations", "owner_id"],
+  ["cv_uploads", "user_id"],
+  ["builder_settings_revisions", "user_id"],
+  ["published_portfolios", "user_id"],
+  ["builder_settings", "user_id"],
+  ["custom_domains", "user_id"],
+  ["portfolio_api_keys", "user_id"],
+];
+
+const listStoredPaths = async (bucket: string, folder: string) => {
+  const { data, error } = await adminSupabase.storage
+    .from(bucket)
+    .list(folder, { limit: 1000 });
+  if (error) throw error;
+  return (data ?? []).map((object) => `${folder}/${object.name}`);
+};
+
+// Every storage object of the user: the per-user folders, the paths recorded
+// on their uploads, and flat `<userId>_...` avatar keys from older uploads
+const removeStoredFiles = async (userId: string) => {
+  const { data: uploads, error } = await adminSupabase
+    .from("cv_uploads")
+    .select("stored_path")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const cvPaths = new Set([
+    ...(await listStoredPaths(CV_BUCKET, userId)),
+    ...(uploads ?? []).map((upload) => upload.stored_path).filter(Boolean),
+  ]);
+  await removeCvFiles([...cvPaths]);
+
+  const { data: legacy, error: legacyError } = await adminSupabase.storage
+    .from(AVATAR_BUCKET)
+    .list("", { limit: 1000, search: `${userId}_` });
+  if (legacyError) throw legacyError;
+  await removeAvatarFiles([
+    ...(await listStoredPaths(AVATAR_BUCKET, userId)),
+    ...(legacy ?? []).map((object) => object.name),
+  ]);
+};
+
+// Removes everything the service holds about a user: storage objects, owned
+// rows, the profile and finally the auth user. Safe to re-run after a partial
+// failure. The audit log is kept.
+export const deleteAccount = async (userId: string): Promise<void> => {
+  const { data: profile, error: profileFetchError } = await adminSupabase
+    .from("profiles")
+    .select("user_name")
+    .eq("id", userId)
+    .maybeSingle();
+  if (profileFetchError) throw profileFetchError;
+
+  await removeStoredFiles(userId);
+
+  for (const [table, column] of OWNED_ROWS) {
+    const { error } = await adminSupabase.from(table).delete().eq(column, userId);
+    if (error) throw error;
+  }
+
+  // Shared rate limit counters are keyed by owner id or slug
+  const counterKeys = [`key.like."tokens:${userId}:*"`];
+  if (profile?.user_name) {
+    const slug = profile.user_name.toLowerCase();
+    counterKeys.push(`key.eq."portfolio:${slug}"`, `key.like."ip:${slug}:*"`);
+  }
+  const { error: counterError } = await adminSupabase
+    .from("rate_limit_counters")
+    .delete()
+    .or(counterKeys.join(","));
+  if (counterError) throw counterError;
+
+  const { error: profileError } = await adminSupabase
+    .from("profiles")
+    .delete()
+    .eq("id", userId);
+  if (profileError) throw profileError;
+
+  // Delete user from Supabase Auth (admin privilege required)
+  const { error: deleteError } = await adminSupabase.auth.admin.deleteUser(userId);
+  if (deleteError && deleteError.status !== 404) throw deleteError;
+};
+
+export const DELETION_GRACE_DAYS = Number(
+  process.env.ACCOUNT_DELETION_GRACE_DAYS ?? 14
+);
+
+// Hides the portfolio now and deletes the account once the grace period is
+// over (see purgeScheduledDeletions). Returns when that will happen.
+export const scheduleAccountDeletion = async (userId: string): Promise<string> => {
+  const scheduledFor = new Date(
+    Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  const { error } = await adminSupabase
+    .from("profiles")
+    .update({ deletion_scheduled_at: scheduledFor })
+    .eq("id", userId);
+  if (error) throw error;
+  return scheduledFor;
+};
+
+// false when no deletion was pending
+export const cancelAccountDeletion = async (userId: string): Promise<boolean> => {
+  const { data, error } = await adminSupabase
+    .from("profiles")
+    .update({ deletion_scheduled_at: null })
+    .eq("id", userId)
+    .not("deletion_scheduled_at", "is", null)
+    .select("id");
+  if (error) throw error;
+  return Boolean(data?.length);
+};
+
+// A failed deletion is retried after this, so one broken account can't hold
+// up the rest of the queue
+const PURGE_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const postponeDeletion = async (userId: string) => {
+  const { error } = await adminSupabase
+    .from("profiles")
+    .update({
+      deletion_scheduled_at: new Date(Date.now() + PURGE_RETRY_DELAY_MS).toISOString(),
+    })
+    .eq("id", userId);
+  if (error) console.error(`Error postponing deletion of account ${userId}:`, error);
+};
+
+// Deletes accounts whose grace period has passed, oldest first, until `deadline`
+export const purgeScheduledDeletions = async ({
+  deadline,
+}: {
+  deadline: number;
+}): Promise<{ deleted: string[]; failed: string[] }> => {
+  const { data, error } = await adminSupabase
+    .from("profiles")
+    .select("id")
+    .lte("deletion_scheduled_at", new Date().toISOString())
+    .order("deletion_scheduled_at", { ascending: true })
+    .limit(50);
+  if (error) throw error;
+
+  const deleted: string[] = [];
+  const failed: string[] = [];
+  for (const { id } of data ?? []) {
+    if (Date.now() > deadline) break;
+    try {
+      await deleteAccount(id);
+      deleted.push(id);
+    } catch (deleteError) {
+      console.error(`Error deleting account ${id}:`, deleteError);
+      failed.push(id);
+      await postponeDeletion(id);
+    }
+  }
+  return { deleted, failed };
+};
+
+// null when there is no such profile
+export const setSuspended = async (
+  userId: string,
+  suspended: boolean,
+  reason?: string
+) => {
+  const { data, error } = await adminSupabase
+    .from("profiles")
+    .update({
+      suspended_at: suspended ? new Date().toISOString() : null,
+      suspended_reason: suspended ? reason ?? null : null,
+    })
+    .eq("id", userId)
+    .select("id, user_name, suspended_at, suspended_reason")
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,123 @@
+import { createHash, randomBytes } from "crypto";
+import { adminSupabase } from "../config/supabaseClient.js";
+
+export interface ApiKey {
+  id: number;
+  user_id: string;
+  name: string;
+  key_prefix: string;
+  allowed_origins: string[];
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+// Publishable: meant to sit in page source, so it only works from the
+// origins the owner listed
+const KEY_PREFIX = "pk_";
+const PUBLIC_COLUMNS =
+  "id, user_id, name, key_prefix, allowed_origins, created_at, last_used_at, revoked_at";
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+export const listApiKeys = async (userId: string): Promise<ApiKey[]> => {
+  const { data, error } = await adminSupabase
+    .from("portfolio_api_keys")
+    .select(PUBLIC_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as ApiKey[];
+};
+
+// Returns the plaintext key; it can't be recovered afterwards
+export const createApiKey = async (
+  userId: string,
+  name: string,
+  allowedOrigins: string[]
+): Promise<{ key: string; apiKey: ApiKey }> => {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const { data, error } = await adminSupabase
+    .from("portfolio_api_keys")
+    .insert({
+      user_id: userId,
+      name,
+      key_prefix: key.slice(0, KEY_PREFIX.length + 6),
+      key_hash: hashKey(key),
+      allowed_origins: allowedOrigins,
+    })
+    .select(PUBLIC_COLUMNS)
+    .single();
+  if (error) throw error;
+  return { key, apiKey: data as ApiKey };
+};
+
+const KEY_CACHE_MS = 60 * 1000;
+// Only real keys are cached, so its size is bounded by the keys in the table;
+// caching misses would let random `pk_` values grow it without limit
+const keyCache = new Map<string, { apiKey: ApiKey; expiresAt: number }>();
+
+const cacheApiKey = (hash: string, apiKey: ApiKey) => {
+  const now = Date.now();
+  for (const [cachedHash, entry] of keyCache) {
+    if (entry.expiresAt <= now) keyCache.delete(cachedHash);
+  }
+  keyCache.set(hash, { apiKey, expiresAt: now + KEY_CACHE_MS });
+};
+
+export const revokeApiKey = async (
+  userId: string,
+  keyId: number
+): Promise<ApiKey | null> => {
+  const { data, error } = await adminSupabase
+    .from("portfolio_api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .eq("id", keyId)
+    .is("revoked_at", null)
+    .select(PUBLIC_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  // Other instances notice within KEY_CACHE_MS
+  keyCache.clear();
+  return data as ApiKey | null;
+};
+
+// The active (unrevoked) key matching `key`, cached briefly per instance
+export const findActiveApiKey = async (key: string): Promise<ApiKey | null> => {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+
+  const hash = hashKey(key);
+  const cached = keyCache.get(hash);
+  if (cached && cached.expiresAt > Date.now()) return cached.apiKey;
+
+  const { data, error } = await adminSupabase
+    .from("portfolio_api_keys")
+    .select(PUBLIC_COLUMNS)
+    .eq("key_hash", hash)
+    .is("revoked_at", null)
+    .maybeSingle();
+  if (error) throw error;
+
+  const apiKey = data as ApiKey | null;
+  if (apiKey) cacheApiKey(hash, apiKey);
+  return apiKey;
+};
+
+const USAGE_TOUCH_MS = 60 * 60 * 1000;
+
+// Hourly resolution is plenty for "last used" and saves a write per message
+export const touchApiKey = async (apiKey: ApiKey) => {
+  if (
+    apiKey.last_used_at &&
+    Date.now() - new Date(apiKey.last_used_at).getTime() < USAGE_TOUCH_MS
+  ) {
+    return;
+  }
+  apiKey.last_used_at = new Date().toISOString();
+  const { error } = await adminSupabase
+    .from("portfolio_api_keys")
+    .update({ last_used_at: apiKey.last_used_at })
+    .eq("id", apiKey.id);
+  if (error) throw error;
+};
@@ -0,0 +1,50 @@
+import { Request } from "express";
+import { adminSupabase } from "../config/supabaseClient.js";
+
+export interface AuditEntry {
+  id: number;
+  actor_id: string | null;
+  action: string;
+  target_user_id: string | null;
+  details: Record<string, unknown>;
+  ip: string | null;
+  created_at: string;
+}
+
+// Never throws: a failed audit write is logged but doesn't undo or block the
+// action it describes
+export const recordAudit = async (
+  req: Request & { user?: { id: string } },
+  action: string,
+  targetUserId: string | null,
+  details: Record<string, unknown> = {}
+): Promise<void> => {
+  const { error } = await adminSupabase.from("audit_log").insert({
+    actor_id: req.user?.id ?? null,
+    action,
+    target_user_id: targetUserId,
+    details,
+    ip: req.ip ?? null,
+  });
+  if (error) console.error(`Error recording audit entry "${action}":`, error);
+};
+
+export const listAuditEntries = async (filters: {
+  limit: number;
+  offset: number;
+  actorId?: string;
+  targetUserId?: string;
+}): Promise<{ entries: AuditEntry[]; total: number }> => {
+  let query = adminSupabase
+    .from("audit_log")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .range(filters.offset, filters.offset + filters.limit - 1);
+
+  if (filters.actorId) query = query.eq("actor_id", filters.actorId);
+  if (filters.targetUserId) query = query.eq("target_user_id", filters.targetUserId);
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+  return { entries: (data ?? []) as AuditEntry[], total: count ?? 0 };
+};
@@ -0,0 +1,158 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import sharp from "sharp";
+import { adminSupabase } from "../config/supabaseClient.js";
+import { sanitizeFileName } from "../utils/fileNames.js";
+
+// Public bucket; avatars are shown on the public portfolio
+export const AVATAR_BUCKET = "avatars";
+export const AVATAR_SIZES = [64, 256, 512] as const;
+// The size stored in avatar_url for clients that only know one URL
+export const DEFAULT_AVATAR_SIZE = 256;
+
+// Refuse decompression bombs before sharp allocates the pixels
+const MAX_INPUT_PIXELS = 40_000_000;
+
+export type AvatarVariants = Record<string, string>;
+
+export class InvalidImageError extends Error {
+  constructor(message = "File is not a supported image (JPEG, PNG, GIF, WebP or AVIF)") {
+    super(message);
+    this.name = "InvalidImageError";
+  }
+}
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+// Sniffs the real format from the file's first bytes; the client's mimetype
+// and extension are not trusted
+export const detectImageType = (buffer: Buffer): string | null => {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (startsWith(buffer, ascii("GIF87a")) || startsWith(buffer, ascii("GIF89a"))) {
+    return "image/gif";
+  }
+  if (startsWith(buffer, ascii("RIFF")) && startsWith(buffer, ascii("WEBP"), 8)) {
+    return "image/webp";
+  }
+  if (
+    startsWith(buffer, ascii("ftyp"), 4) &&
+    (startsWith(buffer, ascii("avif"), 8) || startsWith(buffer, ascii("avis"), 8))
+  ) {
+    return "image/avif";
+  }
+  return null;
+};
+
+// Square WebP renditions, centre-cropped on the most interesting region.
+// EXIF orientation is applied first; sharp drops all metadata (EXIF, GPS,
+// ICC comments) on output.
+export const renderAvatarVariants = async (
+  buffer: Buffer
+): Promise<Map<number, Buffer>> => {
+  if (!detectImageType(buffer)) throw new InvalidImageError();
+
+  const variants = new Map<number, Buffer>();
+  try {
+    for (const size of AVATAR_SIZES) {
+      const output = await sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS })
+        .rotate()
+        .resize(size, size, { fit: "cover", position: sharp.strategy.attention })
+        .webp({ quality: 85 })
+        .toBuffer();
+      variants.set(size, output);
+    }
+  } catch (error) {
+    throw new InvalidImageError(
+      `Image could not be processed: ${(error as Error).message}`
+    );
+  }
+  return variants;
+};
+
+const publicUrl = (storedPath: string) =>
+  adminSupabase.storage.from(AVATAR_BUCKET).getPublicUrl(storedPath).data.publicUrl;
+
+// Uploads every variant under the owner's folder; returns size -> public URL
+// and the stored paths (for cleanup if the settings update fails)
+export const storeAvatarVariants = async (
+  userId: string,
+  originalName: string,
+  variants: Map<number, Buffer>
+): Promise<{ urls: AvatarVariants; paths: string[] }> => {
+  const stem = sanitizeFileName(path.parse(originalName || "").name, "avatar");
+  const prefix = `${userId}/${randomUUID()}-${stem}`;
+
+  const urls: AvatarVariants = {};
+  const paths: string[] = [];
+  try {
+    for (const [size, output] of variants) {
+      const storedPath = `${prefix}-${size}.webp`;
+      const { error } = await adminSupabase.storage
+        .from(AVATAR_BUCKET)
+        .upload(storedPath, output, {
+          contentType: "image/webp",
+          cacheControl: "31536000",
+          upsert: false,
+        });
+      if (error) throw error;
+      paths.push(storedPath);
+      urls[String(size)] = publicUrl(storedPath);
+    }
+  } catch (error) {
+    await removeAvatarFiles(paths).catch(() => undefined);
+    throw error;
+  }
+  return { urls, paths };
+};
+
+export const removeAvatarFiles = async (storedPaths: string[]) => {
+  if (!storedPaths.length) return;
+  const { error } = await adminSupabase.storage
+    .from(AVATAR_BUCKET)
+    .remove(storedPaths);
+  if (error) throw error;
+};
+
+// Bucket path of one of our public avatar URLs, or null for anything else
+export const avatarPathFromUrl = (url: string | null | undefined): string | null => {
+  const match = url?.match(new RegExp(`/object/public/${AVATAR_BUCKET}/([^?#]+)`));
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+// Whether a URL points at one of the user's own avatar objects, in their
+// folder or under an older flat `<userId>_...` key
+export const isOwnAvatarUrl = (userId: string, url: string | null | undefined): boolean => {
+  const storedPath = avatarPathFromUrl(url);
+  return Boolean(
+    storedPath?.startsWith(`${userId}/`) || storedPath?.startsWith(`${userId}_`)
+  );
+};
+
+// Deletes the owner's avatar objects that no URL in `keep` points at. This
+// covers the per-user folder and the flat `<userId>_...` keys older uploads used.
+export const collectOldAvatars = async (
+  userId: string,
+  keep: Array<string | null | undefined>,
+  legacyUrl?: string | null
+): Promise<number> => {
+  const kept = new Set(keep.map(avatarPathFromUrl).filter(Boolean));
+
+  const { data, error } = await adminSupabase.storage
+    .from(AVATAR_BUCKET)
+    .list(userId, { limit: 1000 });
+  if (error) throw error;
+
+  const candidates = (data ?? []).map((object) => `${userId}/${object.name}`);
+  const legacyPath = avatarPathFromUrl(legacyUrl);
+  if (legacyPath?.startsWith(`${userId}_`)) candidates.push(legacyPath);
+
+  const stale = candidates.filter((storedPath) => !kept.has(storedPath));
+  await removeAvatarFiles(stale);
+  return stale.length;
+};
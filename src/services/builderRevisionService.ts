@@ -0,0 +1,139 @@
+import { adminSupabase } from "../config/supabaseClient.js";
+
+// Oldest revisions beyond this are pruned after every save
+export const MAX_SETTINGS_REVISIONS = Number(
+  process.env.BUILDER_REVISION_LIMIT ?? 50
+);
+
+export type SettingsSnapshot = Record<string, unknown>;
+
+export interface SettingsChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface SettingsRevision {
+  id: number;
+  user_id: string;
+  version: number;
+  settings: SettingsSnapshot;
+  diff: SettingsChange[];
+  created_by: string | null;
+  restored_from: number | null;
+  created_at: string;
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Field-level diff between two settings snapshots
+export const diffSettings = (
+  before: SettingsSnapshot,
+  after: SettingsSnapshot
+): SettingsChange[] =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => !same(before[field], after[field]))
+    .map((field) => ({
+      field,
+      from: before[field] ?? null,
+      to: after[field] ?? null,
+    }));
+
+const pruneRevisions = async (userId: string) => {
+  const { data, error } = await adminSupabase
+    .from("builder_settings_revisions")
+    .select("id")
+    .eq("user_id", userId)
+    .order("id", { ascending: false })
+    .range(MAX_SETTINGS_REVISIONS, MAX_SETTINGS_REVISIONS + 999);
+  if (error) throw error;
+  if (!data?.length) return;
+
+  const { error: deleteError } = await adminSupabase
+    .from("builder_settings_revisions")
+    .delete()
+    .in(
+      "id",
+      data.map((row) => row.id)
+    );
+  if (deleteError) throw deleteError;
+};
+
+// Records the settings as saved at `version`. Saves that change nothing are
+// not recorded so they don't push real history out of the cap.
+export const recordRevision = async (
+  userId: string,
+  version: number,
+  before: SettingsSnapshot,
+  after: SettingsSnapshot,
+  meta: { actorId?: string; restoredFrom?: number } = {}
+): Promise<void> => {
+  const diff = diffSettings(before, after);
+  if (!diff.length) return;
+
+  const { error } = await adminSupabase.from("builder_settings_revisions").insert({
+    user_id: userId,
+    version,
+    settings: after,
+    diff,
+    created_by: meta.actorId ?? userId,
+    restored_from: meta.restoredFrom ?? null,
+  });
+  if (error) throw error;
+
+  await pruneRevisions(userId);
+};
+
+export const listRevisions = async (
+  userId: string,
+  limit: number,
+  offset: number
+): Promise<{ revisions: Omit<SettingsRevision, "settings">[]; total: number }> => {
+  const { data, error, count } = await adminSupabase
+    .from("builder_settings_revisions")
+    .select("id, user_id, version, diff, created_by, restored_from, created_at", {
+      count: "exact",
+    })
+    .eq("user_id", userId)
+    .order("id", { ascending: false })
+    .range(offset, offset + limit - 1);
+  if (error) throw error;
+  return {
+    revisions: (data ?? []) as Omit<SettingsRevision, "settings">[],
+    total: count ?? 0,
+  };
+};
+
+// Every avatar URL the retained revisions point at, so restoring one never
+// brings back a deleted image
+export const listRevisionAvatarUrls = async (userId: string): Promise<string[]> => {
+  const { data, error } = await adminSupabase
+    .from("builder_settings_revisions")
+    .select("avatar_url:settings->>avatar_url, avatar_variants:settings->avatar_variants")
+    .eq("user_id", userId);
+  if (error) throw error;
+
+  const rows = (data ?? []) as Array<{
+    avatar_url: string | null;
+    avatar_variants: Record<string, string> | null;
+  }>;
+  return rows.flatMap((row) => [
+    ...(row.avatar_url ? [row.avatar_url] : []),
+    ...Object.values(row.avatar_variants ?? {}),
+  ]);
+};
+
+export const findRevision = async (
+  userId: string,
+  revisionId: number
+): Promise<SettingsRevision | null> => {
+  const { data, error } = await adminSupabase
+    .from("builder_settings_revisions")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("id", revisionId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as SettingsRevision | null;
+};
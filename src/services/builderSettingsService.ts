@@ -0,0 +1,216 @@
+import { adminSupabase } from "../config/supabaseClient.js";
+import { recordRevision } from "./builderRevisionService.js";
+
+export interface BuilderSettings {
+  primary_color: string;
+  bg_type: "solid" | "gradient";
+  bg_color: string;
+  gradient_from?: string;
+  gradient_to?: string;
+  gradient_direction?: string;
+  input_color: string;
+  border_color: string;
+  social_btn_color: string;
+  avatar_url?: string | null;
+  // Square WebP renditions keyed by pixel size ("64", "256", "512")
+  avatar_variants?: Record<string, string> | null;
+  prompts: string[];
+  socials: Array<{
+    label: string;
+    href: string;
+    icon: string;
+  }>;
+  ai_model?: string | null;
+  ai_temperature?: number | null;
+  // Public chat limits; capped by the platform defaults
+  chat_rate_limit_per_ip?: number | null;
+  chat_rate_limit_per_portfolio?: number | null;
+  daily_token_budget?: number | null;
+  // Opt-in: show the owner's email on the public portfolio
+  show_email?: boolean;
+}
+
+export const DEFAULT_BUILDER_SETTINGS: BuilderSettings = {
+  primary_color: "#3b82f6",
+  bg_type: "solid",
+  bg_color: "#ffffff",
+  gradient_from: "#3b82f6",
+  gradient_to: "#8b5cf6",
+  gradient_direction: "to bottom",
+  input_color: "#ffffff",
+  border_color: "#d1d5db",
+  social_btn_color: "#3b82f6",
+  avatar_url: null,
+  avatar_variants: null,
+  prompts: [],
+  socials: [],
+  ai_model: null,
+  ai_temperature: 0.7,
+  chat_rate_limit_per_ip: null,
+  chat_rate_limit_per_portfolio: null,
+  daily_token_budget: null,
+  show_email: false,
+};
+
+// What visitors may see; model choice, limits and privacy flags stay private
+export const PUBLIC_SETTINGS_FIELDS = [
+  "primary_color",
+  "bg_type",
+  "bg_color",
+  "gradient_from",
+  "gradient_to",
+  "gradient_direction",
+  "input_color",
+  "border_color",
+  "social_btn_color",
+  "avatar_url",
+  "avatar_variants",
+  "prompts",
+  "socials",
+] as const;
+
+export type PublicBuilderSettings = Pick<
+  BuilderSettings,
+  (typeof PUBLIC_SETTINGS_FIELDS)[number]
+>;
+
+export type BuilderSettingsRow = BuilderSettings & {
+  id: number;
+  user_id: string;
+  version: number;
+  updated_at?: string;
+};
+
+export const findBuilderSettings = async (
+  userId: string
+): Promise<BuilderSettingsRow | null> => {
+  const { data, error } = await adminSupabase
+    .from("builder_settings")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as BuilderSettingsRow | null;
+};
+
+export const toPublicSettings = (
+  settings: BuilderSettings
+): PublicBuilderSettings =>
+  Object.fromEntries(
+    PUBLIC_SETTINGS_FIELDS.map((field) => [
+      field,
+      settings[field] ?? DEFAULT_BUILDER_SETTINGS[field] ?? null,
+    ])
+  ) as PublicBuilderSettings;
+
+// Columns written from a BuilderSettings object
+export const SETTINGS_COLUMNS = [
+  ...PUBLIC_SETTINGS_FIELDS,
+  "ai_model",
+  "ai_temperature",
+  "chat_rate_limit_per_ip",
+  "chat_rate_limit_per_portfolio",
+  "daily_token_budget",
+  "show_email",
+] as const;
+
+export const pickSettingsColumns = (
+  settings: BuilderSettings
+): Record<string, unknown> => ({
+  ...Object.fromEntries(
+    SETTINGS_COLUMNS.map((column) => [column, settings[column] ?? null])
+  ),
+  show_email: settings.show_email ?? false,
+});
+
+// Version 0 stands for "no row yet" (defaults)
+export const settingsETag = (version: number) => `"${version}"`;
+
+// undefined: no precondition; NaN: unparseable header
+export const parseIfMatch = (header: string | undefined): number | undefined => {
+  if (!header) return undefined;
+  const match = header.trim().match(/^(?:W\/)?"(\d+)"$/);
+  return match ? Number(match[1]) : NaN;
+};
+
+export type SettingsWriteResult =
+  | { ok: true; row: BuilderSettingsRow }
+  | { ok: false; current: BuilderSettingsRow | null };
+
+export interface WriteSettingsOptions {
+  // If-Match precondition; omitted means last write wins
+  expectedVersion?: number;
+  // Who made the change, for the revision log (defaults to the owner)
+  actorId?: string;
+  restoredFrom?: number;
+}
+
+// Insert-or-update with optimistic concurrency. When `expectedVersion` is
+// given the write only lands if the stored version still matches; the
+// builder_settings trigger bumps `version` on every update. Successful
+// writes are recorded in the revision history.
+export const writeBuilderSettings = async (
+  userId: string,
+  settings: BuilderSettings,
+  { expectedVersion, ...revisionMeta }: WriteSettingsOptions = {}
+): Promise<SettingsWriteResult> => {
+  const values = pickSettingsColumns(settings);
+  const current = await findBuilderSettings(userId);
+  const result = await saveSettingsRow(userId, values, current, expectedVersion);
+
+  if (result.ok) {
+    // History is best effort; the save itself already went through
+    try {
+      await recordRevision(
+        userId,
+        result.row.version,
+        pickSettingsColumns(current ?? DEFAULT_BUILDER_SETTINGS),
+        values,
+        revisionMeta
+      );
+    } catch (error) {
+      console.error("Error recording settings revision:", error);
+    }
+  }
+  return result;
+};
+
+const saveSettingsRow = async (
+  userId: string,
+  values: Record<string, unknown>,
+  current: BuilderSettingsRow | null,
+  expectedVersion?: number
+): Promise<SettingsWriteResult> => {
+
+  if (expectedVersion !== undefined && (current?.version ?? 0) !== expectedVersion) {
+    return { ok: false, current };
+  }
+
+  if (!current) {
+    const { data, error } = await adminSupabase
+      .from("builder_settings")
+      .insert({ user_id: userId, ...values })
+      .select()
+      .single();
+    // Unique violation: another request created the row first
+    if (error?.code === "23505") {
+      return { ok: false, current: await findBuilderSettings(userId) };
+    }
+    if (error) throw error;
+    return { ok: true, row: data as BuilderSettingsRow };
+  }
+
+  const { data, error } = await adminSupabase
+    .from("builder_settings")
+    .update(values)
+    .eq("user_id", userId)
+    .eq("version", current.version)
+    .select();
+  if (error) throw error;
+
+  // Someone else wrote between our read and our update
+  if (!data?.length) {
+    return { ok: false, current: await findBuilderSettings(userId) };
+  }
+  return { ok: true, row: data[0] as BuilderSettingsRow };
+};
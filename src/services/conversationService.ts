@@ -0,0 +1,135 @@
+import dotenv from "dotenv";
+import { adminSupabase } from "../config/supabaseClient.js";
+import { estimateTokens, getLLMProvider } from "./llm/index.js";
+
+dotenv.config();
+
+export type ChatRole = "visitor" | "assistant";
+
+export interface ChatMessage {
+  id: number;
+  conversation_id: string;
+  role: ChatRole;
+  content: string;
+  created_at: string;
+}
+
+export interface Conversation {
+  id: string;
+  owner_id: string;
+  cv_id: number | null;
+  summary: string | null;
+  // How many of the oldest messages `summary` already covers
+  summarized_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export const MAX_MESSAGE_LENGTH = 2000;
+const HISTORY_TOKEN_BUDGET = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET ?? 1500);
+
+export const createConversation = async (
+  ownerId: string,
+  cvId: number | null
+): Promise<Conversation> => {
+  const { data, error } = await adminSupabase
+    .from("chat_conversations")
+    .insert({ owner_id: ownerId, cv_id: cvId })
+    .select("*")
+    .single();
+  if (error) throw error;
+  return data as Conversation;
+};
+
+// Scoped to the owner so a visitor can't continue someone else's thread
+export const findConversation = async (
+  id: string,
+  ownerId: string
+): Promise<Conversation | null> => {
+  const { data, error } = await adminSupabase
+    .from("chat_conversations")
+    .select("*")
+    .eq("id", id)
+    .eq("owner_id", ownerId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as Conversation | null;
+};
+
+export const listMessages = async (
+  conversationId: string
+): Promise<ChatMessage[]> => {
+  const { data, error } = await adminSupabase
+    .from("chat_messages")
+    .select("*")
+    .eq("conversation_id", conversationId)
+    .order("id", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ChatMessage[];
+};
+
+export const appendMessage = async (
+  conversationId: string,
+  role: ChatRole,
+  content: string
+) => {
+  const { error } = await adminSupabase
+    .from("chat_messages")
+    .insert({ conversation_id: conversationId, role, content });
+  if (error) throw error;
+
+  await adminSupabase
+    .from("chat_conversations")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", conversationId);
+};
+
+const formatMessage = (msg: Pick<ChatMessage, "role" | "content">) =>
+  `${msg.role === "visitor" ? "Visitor" : "Assistant"}: ${msg.content}`;
+
+// Keeps the newest messages that fit in the token budget. Anything older is
+// folded into a running summary stored on the conversation, so each message
+// is summarized at most once.
+export const buildPromptHistory = async (
+  conversation: Conversation,
+  messages: ChatMessage[]
+): Promise<string> => {
+  let used = 0;
+  let keepFrom = messages.length;
+  // A local estimate: an API call per message on every turn adds up
+  while (keepFrom > 0) {
+    const tokens = estimateTokens(formatMessage(messages[keepFrom - 1]));
+    if (used + tokens > HISTORY_TOKEN_BUDGET) break;
+    used += tokens;
+    keepFrom--;
+  }
+
+  let summary = conversation.summary;
+  if (keepFrom > conversation.summarized_count) {
+    const unsummarized = messages
+      .slice(conversation.summarized_count, keepFrom)
+      .map(formatMessage)
+      .join("\n");
+
+    summary = await getLLMProvider().generate(
+      `Summarize this conversation between a portfolio visitor and an assistant in at most 5 sentences. Keep names, companies and facts that were asked about.
+
+${summary ? `EARLIER SUMMARY:\n${summary}\n\n` : ""}NEW MESSAGES:
+${unsummarized}`,
+      { temperature: 0.2 }
+    );
+
+    const { error } = await adminSupabase
+      .from("chat_conversations")
+      .update({ summary, summarized_count: keepFrom })
+      .eq("id", conversation.id);
+    if (error) console.error("Error saving conversation summary:", error);
+  }
+
+  // Messages already folded into an older summary never reappear verbatim
+  const recentFrom = Math.max(keepFrom, conversation.summarized_count);
+  const recent = messages.slice(recentFrom).map(formatMessage).join("\n");
+  return [summary ? `SUMMARY OF EARLIER CONVERSATION:\n${summary}` : "", recent]
+    .filter(Boolean)
+    .join("\n\n");
+};
@@ -0,0 +1,339 @@
+import { LLMProvider } from "../llm/index.js";
+import { splitIntoSections } from "../retrieval/chunker.js";
+import {
+  CVContact,
+  CVEducation,
+  CVExperience,
+  CVProject,
+  ParsedCV,
+} from "./types.js";
+
+type SectionKind =
+  | "contact"
+  | "summary"
+  | "experience"
+  | "education"
+  | "skills"
+  | "projects";
+
+const SECTION_KEYWORDS: Record<SectionKind, string[]> = {
+  contact: ["contact", "personal details", "personal information"],
+  summary: ["summary", "profile", "objective", "about"],
+  experience: ["experience", "employment", "work history", "career"],
+  education: ["education", "academic", "qualification"],
+  skills: ["skills", "competencies", "abilities", "technologies", "tech stack"],
+  projects: ["projects", "portfolio"],
+};
+
+const classifySection = (title: string): SectionKind | null => {
+  const lower = title.toLowerCase();
+  for (const [kind, keywords] of Object.entries(SECTION_KEYWORDS)) {
+    if (keywords.some((k) => lower.includes(k))) return kind as SectionKind;
+  }
+  return null;
+};
+
+const MONTHS = [
+  "jan", "feb", "mar", "apr", "may", "jun",
+  "jul", "aug", "sep", "oct", "nov", "dec",
+];
+
+const DATE = String.raw`(?:(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{4}|\d{1,2}[/.]\d{4}|\d{4})`;
+const DATE_RANGE = new RegExp(
+  `(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today)`,
+  "i"
+);
+const SINGLE_YEAR = /\b(19|20)\d{2}\b/;
+
+// "Mar 2021" -> "2021-03", "03/2021" -> "2021-03", "2021" -> "2021"
+const normaliseDate = (raw: string): string | null => {
+  const value = raw.trim().toLowerCase();
+  const named = value.match(/^([a-z]+)\.?\s+(\d{4})$/);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3));
+    return month >= 0
+      ? `${named[2]}-${String(month + 1).padStart(2, "0")}`
+      : named[2];
+  }
+  const numeric = value.match(/^(\d{1,2})[/.](\d{4})$/);
+  if (numeric) return `${numeric[2]}-${numeric[1].padStart(2, "0")}`;
+  const year = value.match(/^\d{4}$/);
+  return year ? year[0] : null;
+};
+
+const parseDateRange = (text: string) => {
+  const match = text.match(DATE_RANGE);
+  if (!match) {
+    const year = text.match(SINGLE_YEAR);
+    return {
+      start_date: null,
+      end_date: year ? year[0] : null,
+      current: false,
+      matched: year?.[0] ?? null,
+    };
+  }
+  const current = /present|current|now|today/i.test(match[2]);
+  return {
+    start_date: normaliseDate(match[1]),
+    end_date: current ? null : normaliseDate(match[2]),
+    current,
+    matched: match[0],
+  };
+};
+
+const BULLET = /^\s*(?:[-*•▪◦●]|\d+[.)])\s+/;
+const EMAIL = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+const PHONE = /\+?\d[\d\s().-]{7,}\d/;
+const URL = /\b(?:https?:\/\/|www\.)[^\s)>\]]+|\b(?:linkedin\.com|github\.com)\/[^\s)>\]]+/gi;
+
+const clean = (line: string) =>
+  line.replace(BULLET, "").replace(/[*_`#]/g, "").replace(/\s+/g, " ").trim();
+
+const stripPunctuation = (text: string) =>
+  text.replace(/^[\s,|·•–—-]+|[\s,|·•–—-]+$/g, "");
+
+// Groups a section's lines into entries. A non-bullet line after an entry has
+// collected bullets (or a date) starts a new entry.
+const groupEntries = (body: string) => {
+  const entries: Array<{ header: string[]; bullets: string[] }> = [];
+  let current: { header: string[]; bullets: string[] } | null = null;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    if (!rawLine.trim()) continue;
+    const isBullet = BULLET.test(rawLine);
+    const line = clean(rawLine);
+    if (!line) continue;
+
+    const startsNew =
+      !current ||
+      (!isBullet &&
+        (current.bullets.length > 0 ||
+          (DATE_RANGE.test(current.header.join(" ")) && DATE_RANGE.test(line))));
+
+    if (startsNew) {
+      current = { header: [], bullets: [] };
+      entries.push(current);
+    }
+    if (isBullet || current!.header.length >= 3) current!.bullets.push(line);
+    else current!.header.push(line);
+  }
+  return entries;
+};
+
+// "Engineer at Acme", "Engineer | Acme", "Engineer, Acme", "Acme — Engineer"
+const splitTitleAndOrg = (text: string): [string | null, string | null] => {
+  const parts = text
+    .split(/\s+(?:at|@)\s+|\s*[|,–—]\s*|\s+-\s+/)
+    .map(stripPunctuation)
+    .filter(Boolean);
+  return [parts[0] ?? null, parts[1] ?? null];
+};
+
+const parseExperience = (body: string): CVExperience[] =>
+  groupEntries(body).map(({ header, bullets }) => {
+    const headerText = header.join(" | ");
+    const dates = parseDateRange(headerText);
+    const withoutDates = header
+      .map((h) => stripPunctuation(dates.matched ? h.replace(dates.matched, "") : h))
+      .filter(Boolean);
+    const [title, company] = splitTitleAndOrg(withoutDates[0] ?? "");
+    return {
+      title,
+      company: company ?? withoutDates[1] ?? null,
+      location: company ? withoutDates[1] ?? null : withoutDates[2] ?? null,
+      start_date: dates.start_date,
+      end_date: dates.end_date,
+      current: dates.current,
+      highlights: bullets,
+    };
+  });
+
+const DEGREE = /\b(bachelor|master|phd|doctor|b\.?sc|m\.?sc|b\.?a|m\.?a|mba|diploma|degree|certificate|associate)/i;
+
+const parseEducation = (body: string): CVEducation[] =>
+  groupEntries(body).map(({ header, bullets }) => {
+    const dates = parseDateRange(header.join(" | "));
+    const lines = header
+      .flatMap((h) => (dates.matched ? h.replace(dates.matched, "") : h).split(/\s*[|,–—]\s*/))
+      .map(stripPunctuation)
+      .filter(Boolean);
+    const degree = lines.find((l) => DEGREE.test(l)) ?? null;
+    const institution = lines.find((l) => l !== degree) ?? null;
+    return {
+      institution,
+      degree,
+      start_date: dates.start_date,
+      end_date: dates.end_date,
+      details: bullets,
+    };
+  });
+
+const parseSkills = (body: string): string[] => {
+  const skills = body
+    .split(/\r?\n/)
+    .map(clean)
+    // "Languages: TypeScript, Go" -> "TypeScript, Go"
+    .map((line) => line.replace(/^[^:]{1,30}:\s*/, ""))
+    .flatMap((line) => line.split(/\s*[,;|·•]\s*/))
+    .map(stripPunctuation)
+    .filter((s) => s && s.length <= 40);
+  return [...new Map(skills.map((s) => [s.toLowerCase(), s])).values()];
+};
+
+const parseProjects = (body: string): CVProject[] =>
+  groupEntries(body).map(({ header, bullets }) => {
+    const all = [...header, ...bullets];
+    const techLine = all.find((l) => /^(tech(nologies| stack)?|stack|built with)\s*:/i.test(l));
+    const url = all.join(" ").match(URL)?.[0] ?? null;
+    const description = bullets
+      .filter((l) => l !== techLine)
+      .join(" ")
+      .trim();
+    return {
+      name: stripPunctuation((header[0] ?? "").replace(URL, "")) || "Untitled project",
+      description: description || header.slice(1).join(" ") || null,
+      technologies: techLine ? parseSkills(techLine.replace(/^[^:]+:/, "")) : [],
+      url,
+    };
+  });
+
+const parseContact = (text: string, nameHint: string | null): CVContact => {
+  const links = [...new Set(text.match(URL) ?? [])];
+  const location =
+    text
+      .split(/\r?\n/)
+      .map(clean)
+      .flatMap((l) => l.split(/\s*[|·•]\s*/))
+      .find((l) => /^[A-Z][\w\s.-]+,\s*[A-Z][\w\s.-]+$/.test(l) && l.length < 50) ?? null;
+  return {
+    name: nameHint,
+    email: text.match(EMAIL)?.[0] ?? null,
+    phone: text.match(PHONE)?.[0]?.trim() ?? null,
+    location,
+    links,
+  };
+};
+
+export const parseCVHeuristically = (markdown: string): ParsedCV => {
+  const sections = splitIntoSections(markdown);
+  const parsed: ParsedCV = {
+    contact: { name: null, email: null, phone: null, location: null, links: [] },
+    summary: null,
+    experience: [],
+    education: [],
+    skills: [],
+    projects: [],
+    other: [],
+    parser: "heuristic",
+  };
+
+  // The name is usually the first line of the document, which
+  // splitIntoSections may have treated as a heading.
+  const firstLine = markdown
+    .split(/\r?\n/)
+    .map(clean)
+    .find(Boolean);
+  const nameHint =
+    firstLine && firstLine.split(" ").length <= 5 && !EMAIL.test(firstLine)
+      ? firstLine
+      : null;
+
+  const contactText: string[] = [];
+  const summaryText: string[] = [];
+
+  sections.forEach(({ title, body }, index) => {
+    const kind = classifySection(title);
+    switch (kind) {
+      case "contact":
+        contactText.push(body);
+        break;
+      case "summary":
+        summaryText.push(body.split(/\r?\n/).map(clean).filter(Boolean).join(" "));
+        break;
+      case "experience":
+        parsed.experience.push(...parseExperience(body));
+        break;
+      case "education":
+        parsed.education.push(...parseEducation(body));
+        break;
+      case "skills":
+        parsed.skills.push(...parseSkills(body));
+        break;
+      case "projects":
+        parsed.projects.push(...parseProjects(body));
+        break;
+      default:
+        // Unlabelled text at the top is the contact block
+        if (index === 0) contactText.push(body);
+        else parsed.other.push({ title, content: body });
+    }
+  });
+
+  parsed.contact = parseContact(contactText.join("\n") || markdown, nameHint);
+  parsed.summary = summaryText.join("\n\n") || null;
+  return parsed;
+};
+
+// Asks the model to correct the heuristic result. Only trusted if it comes
+// back as JSON with the expected top-level keys.
+const refineWithLLM = async (
+  markdown: string,
+  heuristic: ParsedCV,
+  llm: LLMProvider
+): Promise<ParsedCV | null> => {
+  const { parser, ...draft } = heuristic;
+  const reply = await llm.generate(
+    `You convert CVs into JSON. Fix and complete the DRAFT using the CV text.
+Return ONLY a JSON object with exactly these keys: contact, summary, experience, education, skills, projects, other.
+Keep the same field names and shapes as the DRAFT. Dates are "YYYY-MM" or "YYYY"; use null for unknown values.
+Do not invent information that is not in the CV.
+
+DRAFT:
+${JSON.stringify(draft)}
+
+CV TEXT:
+${markdown}`,
+    { temperature: 0 }
+  );
+
+  try {
+    const json = JSON.parse(reply.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+    const keys = ["contact", "experience", "education", "skills", "projects"];
+    if (!keys.every((k) => k in json)) return null;
+    return { ...heuristic, ...json, parser: "llm" };
+  } catch {
+    return null;
+  }
+};
+
+export const parseCV = async (
+  markdown: string,
+  options: { llm?: LLMProvider } = {}
+): Promise<ParsedCV> => {
+  const heuristic = parseCVHeuristically(markdown);
+  if (!options.llm) return heuristic;
+
+  try {
+    return (await refineWithLLM(markdown, heuristic, options.llm)) ?? heuristic;
+  } catch (err) {
+    console.error("LLM-assisted CV parsing failed:", err);
+    return heuristic;
+  }
+};
+
+// A document looks like a CV when it's long enough and at least two of the
+// usual sections were recognised.
+export const validateCVContent = (content: string): boolean => {
+  if (!content || content.trim().length < 50) {
+    return false;
+  }
+  const parsed = parseCVHeuristically(content);
+  const found = [
+    parsed.summary,
+    parsed.experience.length,
+    parsed.education.length,
+    parsed.skills.length,
+    parsed.projects.length,
+  ].filter(Boolean).length;
+  return found >= 2;
+};
@@ -0,0 +1,46 @@
+import mammoth from "mammoth";
+import { CvExtractor } from "./types.js";
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+
+// mammoth's HTML is simple and predictable (h1-h6, p, ul/ol/li, strong, em,
+// a, table), so a handful of replacements gets us pdf2md-shaped markdown.
+const htmlToMarkdown = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) =>
+        `\n\n${"#".repeat(Number(level))} ${text}\n\n`
+      )
+      .replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, "\n- $1")
+      .replace(/<\/?(ul|ol)[^>]*>/gi, "\n")
+      .replace(/<(strong|b)>([\s\S]*?)<\/\1>/gi, "**$2**")
+      .replace(/<(em|i)>([\s\S]*?)<\/\1>/gi, "_$2_")
+      .replace(/<a [^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi, "[$2]($1)")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|tr|table)>/gi, "\n\n")
+      .replace(/<\/td>/gi, " | ")
+      .replace(/<[^>]+>/g, "")
+  )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+export const docxExtractor: CvExtractor = {
+  name: "docx",
+  label: "Word (DOCX)",
+  mimetypes: [
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ],
+  extensions: [".docx"],
+  extract: async (buffer) => {
+    const { value } = await mammoth.convertToHtml({ buffer });
+    return { markdown: htmlToMarkdown(value) };
+  },
+};
@@ -0,0 +1,55 @@
+import path from "path";
+import { docxExtractor } from "./docxExtractor.js";
+import { linkedinExtractor } from "./linkedinExtractor.js";
+import { pdfExtractor } from "./pdfExtractor.js";
+import { textExtractor } from "./textExtractor.js";
+import { CvExtractor, ExtractionResult, UploadedFileInfo } from "./types.js";
+
+export * from "./types.js";
+
+const extractors: CvExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  textExtractor,
+  linkedinExtractor,
+];
+
+export const registerExtractor = (extractor: CvExtractor) => {
+  extractors.push(extractor);
+};
+
+export const supportedFormats = () => extractors.map((e) => e.label).join(", ");
+
+// Browsers are inconsistent about mimetypes for .md/.docx/.zip, so either the
+// mimetype or the extension may match.
+export const findExtractor = async (
+  file: UploadedFileInfo,
+  buffer: Buffer
+): Promise<CvExtractor | null> => {
+  const ext = path.extname(file.originalname).toLowerCase();
+  for (const extractor of extractors) {
+    const matches =
+      extractor.mimetypes.includes(file.mimetype) ||
+      extractor.extensions.includes(ext);
+    if (matches && (!extractor.accepts || (await extractor.accepts(buffer)))) {
+      return extractor;
+    }
+  }
+  return null;
+};
+
+export class UnsupportedFileTypeError extends Error {
+  constructor() {
+    super(`Unsupported file type. Supported formats: ${supportedFormats()}`);
+    this.name = "UnsupportedFileTypeError";
+  }
+}
+
+export const extractCvText = async (
+  file: UploadedFileInfo,
+  buffer: Buffer
+): Promise<ExtractionResult> => {
+  const extractor = await findExtractor(file, buffer);
+  if (!extractor) throw new UnsupportedFileTypeError();
+  return extractor.extract(buffer);
+};
@@ -0,0 +1,208 @@
+import JSZip, { JSZipObject } from "jszip";
+import { CvExtractor } from "./types.js";
+
+type Row = Record<string, string>;
+
+// RFC 4180-ish: quoted fields, doubled quotes, newlines inside quotes
+const parseCsv = (text: string): Row[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // LinkedIn prepends a "Notes:" block, ended by a blank line, to some files
+  const isBlank = (r: string[]) => r.every((value) => !value.trim());
+  let headerIndex = 0;
+  if (/^\W*notes/i.test(rows[0]?.[0] ?? "")) {
+    headerIndex = rows.findIndex(isBlank);
+    if (headerIndex < 0) return [];
+  }
+  while (headerIndex < rows.length && isBlank(rows[headerIndex])) headerIndex++;
+  if (headerIndex >= rows.length) return [];
+  const header = rows[headerIndex].map((h) => h.replace(/^\uFEFF/, "").trim());
+  return rows
+    .slice(headerIndex + 1)
+    .filter((r) => !isBlank(r))
+    .map((r) => Object.fromEntries(header.map((h, i) => [h, (r[i] ?? "").trim()])));
+};
+
+// Real exports hold a few hundred files of at most a few MB; anything far
+// beyond that is a zip bomb
+const MAX_ZIP_ENTRIES = 2000;
+const MAX_CSV_BYTES = 10 * 1024 * 1024;
+
+const tooLarge = (name: string) =>
+  new Error(`${name} in the LinkedIn export is larger than ${MAX_CSV_BYTES} bytes`);
+
+// JSZip keeps the central directory's sizes on a private field
+type ZipEntry = JSZipObject & { _data?: { uncompressedSize?: number } };
+
+// Inflates one entry, giving up as soon as it passes MAX_CSV_BYTES. The
+// declared size is checked first, but it comes from the archive and can lie.
+const readEntry = (file: ZipEntry): Promise<string> => {
+  if ((file._data?.uncompressedSize ?? 0) > MAX_CSV_BYTES) {
+    return Promise.reject(tooLarge(file.name));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let bytes = 0;
+    const stream = file.nodeStream("nodebuffer");
+    stream
+      .on("data", (chunk: Buffer) => {
+        bytes += chunk.length;
+        if (bytes > MAX_CSV_BYTES) {
+          stream.pause();
+          reject(tooLarge(file.name));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", reject)
+      .on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+  });
+};
+
+const readCsv = async (zip: JSZip, name: string): Promise<Row[]> => {
+  const file = zip.file(new RegExp(`(^|/)${name}$`, "i"))[0];
+  return file ? parseCsv(await readEntry(file)) : [];
+};
+
+const dateRange = (start?: string, end?: string) =>
+  start ? `${start} - ${end || "Present"}` : end ?? "";
+
+const bullets = (text?: string) =>
+  (text ?? "")
+    .split(/\n+/)
+    .map((line) => line.replace(/^[-•*]\s*/, "").trim())
+    .filter(Boolean)
+    .map((line) => `- ${line}`)
+    .join("\n");
+
+const section = (title: string, entries: string[]) =>
+  entries.length ? `## ${title}\n\n${entries.join("\n\n")}` : "";
+
+// LinkedIn "Download your data" archive (Profile.csv, Positions.csv, ...)
+export const linkedinExtractor: CvExtractor = {
+  name: "linkedin",
+  label: "LinkedIn data export (ZIP)",
+  mimetypes: ["application/zip", "application/x-zip-compressed"],
+  extensions: [".zip"],
+
+  accepts: async (buffer) => {
+    try {
+      const zip = await JSZip.loadAsync(buffer);
+      return zip.file(/(^|\/)(Profile|Positions)\.csv$/i).length > 0;
+    } catch {
+      return false;
+    }
+  },
+
+  extract: async (buffer) => {
+    const zip = await JSZip.loadAsync(buffer);
+    if (Object.keys(zip.files).length > MAX_ZIP_ENTRIES) {
+      throw new Error(`LinkedIn export has more than ${MAX_ZIP_ENTRIES} files`);
+    }
+    const [[profile], emails, positions, education, skills, projects] =
+      await Promise.all([
+        readCsv(zip, "Profile.csv"),
+        readCsv(zip, "Email Addresses.csv"),
+        readCsv(zip, "Positions.csv"),
+        readCsv(zip, "Education.csv"),
+        readCsv(zip, "Skills.csv"),
+        readCsv(zip, "Projects.csv"),
+      ]);
+
+    const name = [profile?.["First Name"], profile?.["Last Name"]]
+      .filter(Boolean)
+      .join(" ");
+    const contact = [
+      emails.find((e) => e["Primary"] === "Yes")?.["Email Address"] ??
+        emails[0]?.["Email Address"],
+      profile?.["Geo Location"],
+      ...(profile?.["Websites"] ?? "").split(",").map((w) => w.replace(/^\[?\w+:/, "").replace(/\]$/, "")),
+    ]
+      .map((v) => v?.trim())
+      .filter(Boolean)
+      .join(" | ");
+
+    const parts = [
+      name ? `# ${name}` : "",
+      profile?.["Headline"] ?? "",
+      contact,
+      profile?.["Summary"] ? `## Summary\n\n${profile["Summary"]}` : "",
+      section(
+        "Experience",
+        positions.map((p) =>
+          [
+            `**${[p["Title"], p["Company Name"]].filter(Boolean).join(" at ")}** ${dateRange(p["Started On"], p["Finished On"])}`.trim(),
+            p["Location"] ?? "",
+            bullets(p["Description"]),
+          ]
+            .filter(Boolean)
+            .join("\n")
+        )
+      ),
+      section(
+        "Education",
+        education.map((e) =>
+          [
+            [e["Degree Name"], e["School Name"], dateRange(e["Start Date"], e["End Date"])]
+              .filter(Boolean)
+              .join(", "),
+            bullets([e["Notes"], e["Activities"]].filter(Boolean).join("\n")),
+          ]
+            .filter(Boolean)
+            .join("\n")
+        )
+      ),
+      skills.length
+        ? `## Skills\n\n${skills.map((s) => s["Name"]).filter(Boolean).join(", ")}`
+        : "",
+      section(
+        "Projects",
+        projects.map((p) =>
+          [
+            [p["Title"], p["Url"]].filter(Boolean).join(" "),
+            bullets(p["Description"]),
+          ]
+            .filter(Boolean)
+            .join("\n")
+        )
+      ),
+    ];
+
+    return { markdown: parts.filter(Boolean).join("\n\n") };
+  },
+};
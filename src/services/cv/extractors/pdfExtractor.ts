@@ -0,0 +1,56 @@
+import { createRequire } from "module";
+import { ocrLowTextPages } from "../ocr.js";
+import { CvExtractor } from "./types.js";
+
+const require = createRequire(import.meta.url);
+
+// pdf2md's own steps (lib/pdf2md.js) minus the final join, so the Markdown
+// stays split by page and OCR text can go back where its page was
+const { parse } = require("@opendocsg/pdf2md/lib/util/pdf") as {
+  parse(pdf: Buffer): Promise<{ fonts: { map: Map<string, unknown> }; pages: unknown[] }>;
+};
+const { makeTransformations, transform } =
+  require("@opendocsg/pdf2md/lib/util/transformations") as {
+    makeTransformations(fontMap: Map<string, unknown>): unknown[];
+    transform(
+      pages: unknown[],
+      transformations: unknown[]
+    ): { pages: Array<{ items: string[] }> };
+  };
+
+const pdfToMarkdownPages = async (buffer: Buffer): Promise<string[]> => {
+  const { fonts, pages } = await parse(buffer);
+  return transform(pages, makeTransformations(fonts.map)).pages.map(
+    (page) => page.items.join("\n") + "\n"
+  );
+};
+
+export const pdfExtractor: CvExtractor = {
+  name: "pdf",
+  label: "PDF",
+  mimetypes: ["application/pdf"],
+  extensions: [".pdf"],
+  extract: async (buffer) => {
+    const pages = await pdfToMarkdownPages(buffer);
+
+    // Scanned pages have no text layer; OCR them and insert what we read at
+    // their page. OCR problems shouldn't lose the text pdf2md did find.
+    try {
+      const ocr = await ocrLowTextPages(buffer);
+      if (ocr) {
+        return {
+          markdown: pages
+            .map((markdown, i) =>
+              [markdown.trim(), ocr.pages.get(i + 1)].filter(Boolean).join("\n\n")
+            )
+            .filter(Boolean)
+            .join("\n\n"),
+          ocr: ocr.report,
+        };
+      }
+    } catch (err) {
+      console.error("OCR fallback failed:", err);
+    }
+    return { markdown: pages.join("") };
+  },
+};
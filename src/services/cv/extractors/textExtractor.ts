@@ -0,0 +1,17 @@
+import { CvExtractor } from "./types.js";
+
+// Plain text and Markdown are stored as-is, only normalised
+export const textExtractor: CvExtractor = {
+  name: "text",
+  label: "TXT/Markdown",
+  mimetypes: ["text/plain", "text/markdown", "text/x-markdown"],
+  extensions: [".txt", ".md", ".markdown"],
+  extract: async (buffer) => ({
+    markdown: buffer
+      .toString("utf8")
+      .replace(/^\uFEFF/, "")
+      .replace(/\r\n?/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim(),
+  }),
+};
@@ -0,0 +1,24 @@
+import { OcrReport } from "../ocr.js";
+
+export interface ExtractionResult {
+  // Markdown in the shape pdf2md produces: "#"/"##" headings, "-" bullets,
+  // blank lines between paragraphs. This is what cv_uploads.extracted_text holds.
+  markdown: string;
+  // Present when some pages had to be OCRed
+  ocr?: OcrReport;
+}
+
+export interface UploadedFileInfo {
+  mimetype: string;
+  originalname: string;
+}
+
+export interface CvExtractor {
+  name: string;
+  label: string;
+  mimetypes: string[];
+  extensions: string[];
+  // Extra check for containers that share a mimetype (e.g. ZIPs)
+  accepts?(buffer: Buffer): Promise<boolean>;
+  extract(buffer: Buffer): Promise<ExtractionResult>;
+}
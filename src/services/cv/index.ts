@@ -0,0 +1,35 @@
+import dotenv from "dotenv";
+import { adminSupabase } from "../../config/supabaseClient.js";
+import { getLLMProvider } from "../llm/index.js";
+import { parseCV } from "./cvParser.js";
+import { ParsedCV } from "./types.js";
+
+dotenv.config();
+
+export * from "./cvParser.js";
+export * from "./types.js";
+
+// Runs the optional LLM pass only when CV_PARSER_USE_LLM=true
+export const parseCVWithDefaults = (markdown: string) =>
+  parseCV(markdown, {
+    llm: process.env.CV_PARSER_USE_LLM === "true" ? getLLMProvider() : undefined,
+  });
+
+// Returns the stored parse, parsing (and storing) CVs uploaded before the
+// parser existed.
+export const getOrParseCv = async (row: {
+  id: number;
+  extracted_text: string | null;
+  parsed_cv: ParsedCV | null;
+}): Promise<ParsedCV | null> => {
+  if (row.parsed_cv) return row.parsed_cv;
+  if (!row.extracted_text) return null;
+
+  const parsed = await parseCVWithDefaults(row.extracted_text);
+  const { error } = await adminSupabase
+    .from("cv_uploads")
+    .update({ parsed_cv: parsed })
+    .eq("id", row.id);
+  if (error) console.error("Error storing parsed CV:", error);
+  return parsed;
+};
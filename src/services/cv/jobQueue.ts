@@ -0,0 +1,152 @@
+import { adminSupabase } from "../../config/supabaseClient.js";
+
+export const CV_STAGES = ["extract", "parse", "embed", "summary"] as const;
+export type CvStage = (typeof CV_STAGES)[number];
+
+export type CvJobStatus = "queued" | "running" | "failed" | "done";
+
+export interface CvJob {
+  id: number;
+  cv_id: number;
+  // Stage to run next (or the one that failed)
+  stage: CvStage;
+  status: CvJobStatus;
+  attempts: number;
+  last_error: string | null;
+}
+
+export interface CvJobQueue {
+  enqueue(cvId: number, stage?: CvStage): Promise<CvJob>;
+  // Atomically marks up to `limit` queued jobs as running and returns them
+  claim(limit: number): Promise<CvJob[]>;
+  advance(jobId: number, stage: CvStage): Promise<void>;
+  complete(jobId: number): Promise<void>;
+  fail(jobId: number, error: string): Promise<void>;
+  // Puts the CV's failed job back in the queue at the stage that failed,
+  // with a fresh attempt count
+  retry(cvId: number): Promise<CvJob | null>;
+}
+
+// Claims per job before a stale one (its worker died mid-run) is failed
+export const MAX_CV_JOB_ATTEMPTS = Number(process.env.CV_JOB_MAX_ATTEMPTS ?? 3);
+
+// Postgres-backed queue; claiming uses FOR UPDATE SKIP LOCKED in the
+// claim_cv_jobs RPC so concurrent function invocations never share a job.
+export class SupabaseCvJobQueue implements CvJobQueue {
+  private async update(jobId: number, patch: Partial<CvJob>) {
+    const { error } = await adminSupabase
+      .from("cv_jobs")
+      .update({ ...patch, updated_at: new Date().toISOString() })
+      .eq("id", jobId);
+    if (error) throw error;
+  }
+
+  async enqueue(cvId: number, stage: CvStage = "extract") {
+    const { data, error } = await adminSupabase
+      .from("cv_jobs")
+      .insert({ cv_id: cvId, stage, status: "queued" })
+      .select("*")
+      .single();
+    if (error) throw error;
+    return data as CvJob;
+  }
+
+  async claim(limit: number) {
+    const { data, error } = await adminSupabase.rpc("claim_cv_jobs", {
+      p_limit: limit,
+      p_max_attempts: MAX_CV_JOB_ATTEMPTS,
+    });
+    if (error) throw error;
+    return (data ?? []) as CvJob[];
+  }
+
+  advance(jobId: number, stage: CvStage) {
+    return this.update(jobId, { stage });
+  }
+
+  complete(jobId: number) {
+    return this.update(jobId, { status: "done", last_error: null });
+  }
+
+  fail(jobId: number, error: string) {
+    return this.update(jobId, { status: "failed", last_error: error });
+  }
+
+  async retry(cvId: number) {
+    const { data, error } = await adminSupabase
+      .from("cv_jobs")
+      .update({ status: "queued", attempts: 0, updated_at: new Date().toISOString() })
+      .eq("cv_id", cvId)
+      .eq("status", "failed")
+      .select("*");
+    if (error) throw error;
+    return (data?.[0] as CvJob | undefined) ?? null;
+  }
+}
+
+// In-process queue for tests
+export class MemoryCvJobQueue implements CvJobQueue {
+  jobs: CvJob[] = [];
+  private nextId = 1;
+
+  async enqueue(cvId: number, stage: CvStage = "extract") {
+    const job: CvJob = {
+      id: this.nextId++,
+      cv_id: cvId,
+      stage,
+      status: "queued",
+      attempts: 0,
+      last_error: null,
+    };
+    this.jobs.push(job);
+    return { ...job };
+  }
+
+  async claim(limit: number) {
+    return this.jobs
+      .filter((job) => job.status === "queued")
+      .slice(0, limit)
+      .map((job) => {
+        job.status = "running";
+        job.attempts++;
+        return { ...job };
+      });
+  }
+
+  private find(jobId: number) {
+    const job = this.jobs.find((j) => j.id === jobId);
+    if (!job) throw new Error(`Unknown job ${jobId}`);
+    return job;
+  }
+
+  async advance(jobId: number, stage: CvStage) {
+    this.find(jobId).stage = stage;
+  }
+
+  async complete(jobId: number) {
+    Object.assign(this.find(jobId), { status: "done", last_error: null });
+  }
+
+  async fail(jobId: number, error: string) {
+    Object.assign(this.find(jobId), { status: "failed", last_error: error });
+  }
+
+  async retry(cvId: number) {
+    const job = this.jobs.find((j) => j.cv_id === cvId && j.status === "failed");
+    if (!job) return null;
+    job.status = "queued";
+    job.attempts = 0;
+    return { ...job };
+  }
+}
+
+let queue: CvJobQueue | null = null;
+
+export const getCvJobQueue = (): CvJobQueue => {
+  if (!queue) queue = new SupabaseCvJobQueue();
+  return queue;
+};
+
+export const setCvJobQueue = (next: CvJobQueue | null) => {
+  queue = next;
+};
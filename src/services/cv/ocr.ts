@@ -0,0 +1,118 @@
+import dotenv from "dotenv";
+import { createWorker, Worker } from "tesseract.js";
+import { getDocumentProxy, renderPageAsImage } from "unpdf";
+
+dotenv.config();
+
+// Pages with less extractable text than this are treated as scanned images
+const MIN_PAGE_CHARS = Number(process.env.OCR_MIN_PAGE_CHARS ?? 80);
+// Tesseract confidence (0-100) below which we warn the owner
+const MIN_CONFIDENCE = Number(process.env.OCR_MIN_CONFIDENCE ?? 70);
+const OCR_LANGS = process.env.OCR_LANGS ?? "eng";
+// Each page takes seconds of CPU; scanned pages past this are left out
+const MAX_OCR_PAGES = Number(process.env.OCR_MAX_PAGES ?? 10);
+
+// Render at 2x (~144 DPI); Tesseract does badly on 72 DPI renders
+const RENDER_SCALE = 2;
+
+export interface OcrPageReport {
+  page: number;
+  // "skipped": needed OCR but was past OCR_MAX_PAGES
+  method: "text" | "ocr" | "skipped";
+  chars: number;
+  // Only set for OCRed pages
+  confidence: number | null;
+}
+
+export interface OcrReport {
+  pages: OcrPageReport[];
+  ocr_pages: number;
+  skipped_pages: number;
+  average_confidence: number | null;
+  quality: "good" | "poor";
+}
+
+export interface OcrResult {
+  report: OcrReport;
+  // OCRed text by page number, so callers can put it where the page was
+  pages: Map<number, string>;
+}
+
+// Without an errorHandler tesseract.js rethrows worker failures (e.g. a
+// failed language download) outside any promise, killing the process; with
+// one, createWorker never settles. Route the error into the result instead.
+const startWorker = () =>
+  new Promise<Worker>((resolve, reject) => {
+    createWorker(OCR_LANGS, undefined, { errorHandler: reject }).then(resolve, reject);
+  });
+
+// Finds low-text pages and OCRs them. Returns null when every page already
+// has a usable text layer, so callers can skip OCR bookkeeping entirely.
+export const ocrLowTextPages = async (
+  buffer: Buffer
+): Promise<OcrResult | null> => {
+  // unpdf is the pdf.js build pdf2md uses. It registers its worker globally,
+  // so a second pdf.js version in the process fails its version check.
+  const pdf = await getDocumentProxy(new Uint8Array(buffer), {
+    isEvalSupported: false,
+  });
+
+  try {
+    const pages: OcrPageReport[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const content = await page.getTextContent();
+      const chars = content.items
+        .map((item) => ("str" in item ? item.str : ""))
+        .join("")
+        .replace(/\s+/g, "").length;
+      pages.push({
+        page: n,
+        method: chars < MIN_PAGE_CHARS ? "ocr" : "text",
+        chars,
+        confidence: null,
+      });
+    }
+
+    const lowText = pages.filter((p) => p.method === "ocr");
+    if (!lowText.length) return null;
+    const scanned = lowText.slice(0, MAX_OCR_PAGES);
+    for (const report of lowText.slice(MAX_OCR_PAGES)) report.method = "skipped";
+
+    const worker = await startWorker();
+    const texts = new Map<number, string>();
+    try {
+      for (const report of scanned) {
+        const png = await renderPageAsImage(pdf, report.page, {
+          canvas: () => import("@napi-rs/canvas"),
+          scale: RENDER_SCALE,
+        });
+
+        const { data } = await worker.recognize(Buffer.from(png));
+        report.chars = data.text.replace(/\s+/g, "").length;
+        report.confidence = Math.round(data.confidence);
+        if (data.text.trim()) texts.set(report.page, data.text.trim());
+      }
+    } finally {
+      await worker.terminate();
+    }
+
+    const confidences = scanned.map((p) => p.confidence ?? 0);
+    const average = Math.round(
+      confidences.reduce((sum, c) => sum + c, 0) / confidences.length
+    );
+
+    return {
+      report: {
+        pages,
+        ocr_pages: scanned.length,
+        skipped_pages: lowText.length - scanned.length,
+        average_confidence: average,
+        quality: confidences.some((c) => c < MIN_CONFIDENCE) ? "poor" : "good",
+      },
+      pages: texts,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+};
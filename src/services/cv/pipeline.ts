@@ -0,0 +1,178 @@
+import { adminSupabase } from "../../config/supabaseClient.js";
+import { getLLMProvider } from "../llm/index.js";
+import { indexCv } from "../retrieval/index.js";
+import { parseCVWithDefaults } from "./index.js";
+import { CV_STAGES, CvJob, CvStage, getCvJobQueue } from "./jobQueue.js";
+import { extractCvText } from "./extractors/index.js";
+import { OcrReport } from "./ocr.js";
+import { downloadCvFile } from "./storage.js";
+
+// cv_uploads.status values. `stage`/`progress` say where processing is.
+export type CvStatus = "queued" | "processing" | "processed" | "failed";
+
+// Progress reported once each stage has finished
+const STAGE_PROGRESS: Record<CvStage, number> = {
+  extract: 40,
+  parse: 60,
+  embed: 85,
+  summary: 100,
+};
+
+interface CvRow {
+  id: number;
+  user_id: string;
+  stored_path: string | null;
+  mimetype: string;
+  original_name: string;
+  extracted_text: string | null;
+}
+
+const updateCv = async (cvId: number, patch: Record<string, unknown>) => {
+  const { error } = await adminSupabase
+    .from("cv_uploads")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", cvId);
+  if (error) throw error;
+};
+
+const loadCv = async (cvId: number): Promise<CvRow> => {
+  const { data, error } = await adminSupabase
+    .from("cv_uploads")
+    .select("id, user_id, stored_path, mimetype, original_name, extracted_text")
+    .eq("id", cvId)
+    .single();
+  if (error) throw error;
+  return data as CvRow;
+};
+
+// Each stage reads what it needs from the row, so any stage can be re-run
+// on its own when retrying.
+const STAGE_HANDLERS: Record<CvStage, (cv: CvRow) => Promise<void>> = {
+  extract: async (cv) => {
+    if (!cv.stored_path) throw new Error("Upload has no stored file");
+    const { markdown, ocr } = await extractCvText(
+      { mimetype: cv.mimetype, originalname: cv.original_name },
+      await downloadCvFile(cv.stored_path)
+    );
+    if (!markdown.trim()) throw new Error("No text could be extracted");
+    await updateCv(cv.id, { extracted_text: markdown, ocr_report: ocr ?? null });
+  },
+
+  parse: async (cv) => {
+    await updateCv(cv.id, {
+      parsed_cv: await parseCVWithDefaults(cv.extracted_text ?? ""),
+    });
+  },
+
+  embed: async (cv) => {
+    await indexCv(cv.id, cv.extracted_text ?? "");
+  },
+
+  summary: async (cv) => {
+    const summary = await getLLMProvider().generate(
+      `Write a 2-3 sentence professional summary of the person described in this CV, in the third person. Use only facts from the CV.
+
+CV:
+${cv.extracted_text}`,
+      { temperature: 0.3, maxOutputTokens: 256 }
+    );
+    await updateCv(cv.id, { summary: summary.trim() });
+  },
+};
+
+// Human-readable notes for the owner about how processing went
+export const cvWarnings = (ocrReport: OcrReport | null): string[] => [
+  ...(ocrReport?.quality === "poor"
+    ? [
+        `Some pages of this CV are scanned images and were read with OCR at low confidence (average ${ocrReport.average_confidence}%). Answers may be inaccurate; consider uploading a text-based PDF or DOCX.`,
+      ]
+    : []),
+  ...(ocrReport?.skipped_pages
+    ? [
+        `${ocrReport.skipped_pages} scanned page(s) were over the OCR limit and left out. Consider uploading a text-based PDF or DOCX.`,
+      ]
+    : []),
+];
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+// Runs the stages from `fromStage` to the end, keeping status/stage/progress
+// on the upload row current. `onStage` lets the job runner checkpoint.
+export const runCvStages = async (
+  cvId: number,
+  fromStage: CvStage = "extract",
+  onStage?: (stage: CvStage) => Promise<void>
+) => {
+  const stages = CV_STAGES.slice(CV_STAGES.indexOf(fromStage));
+
+  for (const stage of stages) {
+    await onStage?.(stage);
+    await updateCv(cvId, { status: "processing", stage, error: null });
+    try {
+      await STAGE_HANDLERS[stage](await loadCv(cvId));
+    } catch (err) {
+      await updateCv(cvId, { status: "failed", error: errorMessage(err) });
+      throw err;
+    }
+    await updateCv(cvId, { progress: STAGE_PROGRESS[stage] });
+  }
+
+  await updateCv(cvId, { status: "processed", stage: null, progress: 100 });
+};
+
+export const enqueueCvProcessing = async (cvId: number) => {
+  await updateCv(cvId, { status: "queued", stage: "extract", progress: 0 });
+  return getCvJobQueue().enqueue(cvId);
+};
+
+export const runCvJob = async (job: CvJob) => {
+  const queue = getCvJobQueue();
+  try {
+    await runCvStages(job.cv_id, job.stage, (stage) =>
+      queue.advance(job.id, stage)
+    );
+    await queue.complete(job.id);
+  } catch (err) {
+    console.error(`CV job ${job.id} failed:`, err);
+    await queue.fail(job.id, errorMessage(err));
+  }
+};
+
+// Processes queued jobs one at a time until the queue is empty, `maxJobs`
+// have run, or `deadline` (epoch ms) has passed. Used by the cron endpoint
+// on Vercel and by the local worker.
+export const drainCvJobs = async (
+  options: { maxJobs?: number; deadline?: number } = {}
+) => {
+  const { maxJobs = Infinity, deadline = Infinity } = options;
+  const queue = getCvJobQueue();
+  let processed = 0;
+
+  while (processed < maxJobs && Date.now() < deadline) {
+    const [job] = await queue.claim(1);
+    if (!job) break;
+    await runCvJob(job);
+    processed++;
+  }
+  return processed;
+};
+
+// Re-queues a failed CV at the stage that failed. CVs converted synchronously
+// have no job yet, so one is created from the stage stored on the row.
+export const retryCvProcessing = async (cvId: number) => {
+  const { data: cv, error } = await adminSupabase
+    .from("cv_uploads")
+    .select("status, stage")
+    .eq("id", cvId)
+    .single();
+  if (error) throw error;
+  if (cv.status !== "failed") return null;
+
+  const queue = getCvJobQueue();
+  const job =
+    (await queue.retry(cvId)) ??
+    (await queue.enqueue(cvId, (cv.stage as CvStage | null) ?? "extract"));
+  await updateCv(cvId, { status: "queued", error: null });
+  return job;
+};
@@ -0,0 +1,52 @@
+import { randomUUID } from "crypto";
+import { adminSupabase } from "../../config/supabaseClient.js";
+import { sanitizeFileName } from "../../utils/fileNames.js";
+
+// Private bucket; files are only reachable through signed URLs
+export const CV_BUCKET = "cvs";
+export const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+// Stores the original upload under the owner's folder and returns its path
+export const storeCvFile = async (
+  userId: string,
+  file: Express.Multer.File
+): Promise<string> => {
+  const storedPath = `${userId}/${randomUUID()}-${sanitizeFileName(file.originalname, "cv")}`;
+  const { error } = await adminSupabase.storage
+    .from(CV_BUCKET)
+    .upload(storedPath, file.buffer, {
+      contentType: file.mimetype,
+      upsert: false,
+    });
+  if (error) throw error;
+  return storedPath;
+};
+
+export const downloadCvFile = async (storedPath: string): Promise<Buffer> => {
+  const { data, error } = await adminSupabase.storage
+    .from(CV_BUCKET)
+    .download(storedPath);
+  if (error) throw error;
+  return Buffer.from(await data.arrayBuffer());
+};
+
+export const removeCvFiles = async (storedPaths: string[]) => {
+  if (!storedPaths.length) return;
+  const { error } = await adminSupabase.storage
+    .from(CV_BUCKET)
+    .remove(storedPaths);
+  if (error) throw error;
+};
+
+export const createCvDownloadUrl = async (
+  storedPath: string,
+  downloadName?: string
+) => {
+  const { data, error } = await adminSupabase.storage
+    .from(CV_BUCKET)
+    .createSignedUrl(storedPath, SIGNED_URL_TTL_SECONDS, {
+      download: downloadName ?? true,
+    });
+  if (error) throw error;
+  return data.signedUrl;
+};
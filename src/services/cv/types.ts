@@ -0,0 +1,47 @@
+export interface CVContact {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  location: string | null;
+  links: string[];
+}
+
+// Dates are normalised to "YYYY-MM" or "YYYY"; `end_date` is null for
+// ongoing roles (`current: true`) or when the CV doesn't give one.
+export interface CVExperience {
+  title: string | null;
+  company: string | null;
+  location: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  current: boolean;
+  highlights: string[];
+}
+
+export interface CVEducation {
+  institution: string | null;
+  degree: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  details: string[];
+}
+
+export interface CVProject {
+  name: string;
+  description: string | null;
+  technologies: string[];
+  url: string | null;
+}
+
+export interface ParsedCV {
+  contact: CVContact;
+  summary: string | null;
+  experience: CVExperience[];
+  education: CVEducation[];
+  skills: string[];
+  projects: CVProject[];
+  // Sections we found but don't model (certifications, languages, ...)
+  other: Array<{ title: string; content: string }>;
+  // "heuristic" or "llm" - which pass produced the final result
+  parser: "heuristic" | "llm";
+}
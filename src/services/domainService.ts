@@ -0,0 +1,232 @@
+import { randomBytes } from "crypto";
+import { resolveTxt } from "dns/promises";
+import { adminSupabase } from "../config/supabaseClient.js";
+import { findProfileById, PortfolioOwner } from "./portfolioService.js";
+
+export interface CustomDomain {
+  id: number;
+  user_id: string;
+  hostname: string;
+  verification_token: string;
+  verified_at: string | null;
+  last_checked_at: string | null;
+  created_at: string;
+}
+
+// Owners publish `<CHALLENGE_LABEL>.<hostname> TXT "<CHALLENGE_PREFIX><token>"`
+export const CHALLENGE_LABEL = "_portfolio-challenge";
+export const CHALLENGE_PREFIX = "portfolio-verification=";
+
+export interface DnsResolver {
+  resolveTxt(hostname: string): Promise<string[][]>;
+}
+
+let resolver: DnsResolver = { resolveTxt };
+
+export const getDnsResolver = (): DnsResolver => resolver;
+
+// Tests swap in a fake resolver; null restores the system one
+export const setDnsResolver = (next: DnsResolver | null) => {
+  resolver = next ?? { resolveTxt };
+};
+
+export const challengeRecord = (domain: CustomDomain) => ({
+  type: "TXT",
+  name: `${CHALLENGE_LABEL}.${domain.hostname}`,
+  value: `${CHALLENGE_PREFIX}${domain.verification_token}`,
+});
+
+// Hosts the app itself is served from can't be claimed
+const PLATFORM_HOSTS = (process.env.PLATFORM_HOSTS ?? "localhost,vercel.app")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+const HOSTNAME = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// Lower-cased bare hostname, or null when it isn't a claimable domain
+export const normalizeHostname = (input: string): string | null => {
+  const hostname = input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/[/:?#].*$/, "")
+    .replace(/\.$/, "");
+  if (!HOSTNAME.test(hostname)) return null;
+  if (PLATFORM_HOSTS.some((host) => hostname === host || hostname.endsWith(`.${host}`))) {
+    return null;
+  }
+  return hostname;
+};
+
+const DOMAIN_CACHE_MS = 60 * 1000;
+let verifiedCache: {
+  owners: Map<string, string>;
+  expiresAt: number;
+} | null = null;
+
+// hostname -> owner id for every verified domain, cached per instance
+const getVerifiedDomains = async (): Promise<Map<string, string>> => {
+  if (verifiedCache && verifiedCache.expiresAt > Date.now()) {
+    return verifiedCache.owners;
+  }
+
+  const { data, error } = await adminSupabase
+    .from("custom_domains")
+    .select("hostname, user_id")
+    .not("verified_at", "is", null);
+  if (error) throw error;
+
+  const owners = new Map<string, string>(
+    (data ?? []).map((row) => [row.hostname, row.user_id])
+  );
+  verifiedCache = { owners, expiresAt: Date.now() + DOMAIN_CACHE_MS };
+  return owners;
+};
+
+const invalidateDomainCache = () => {
+  verifiedCache = null;
+};
+
+// Origins the browser sends from verified custom domains
+export const isVerifiedDomainOrigin = async (origin: string): Promise<boolean> => {
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:") return false;
+  return (await getVerifiedDomains()).has(url.hostname);
+};
+
+// The portfolio served on `hostname`, if it is a verified custom domain
+export const findOwnerByHost = async (
+  hostname: string
+): Promise<PortfolioOwner | null> => {
+  const ownerId = (await getVerifiedDomains()).get(hostname.toLowerCase());
+  return ownerId ? findProfileById(ownerId) : null;
+};
+
+export const listDomains = async (userId: string): Promise<CustomDomain[]> => {
+  const { data, error } = await adminSupabase
+    .from("custom_domains")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as CustomDomain[];
+};
+
+export const findDomain = async (
+  userId: string,
+  domainId: number
+): Promise<CustomDomain | null> => {
+  const { data, error } = await adminSupabase
+    .from("custom_domains")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("id", domainId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as CustomDomain | null;
+};
+
+const isVerifiedElsewhere = async (hostname: string, userId: string) => {
+  const { data, error } = await adminSupabase
+    .from("custom_domains")
+    .select("id")
+    .eq("hostname", hostname)
+    .neq("user_id", userId)
+    .not("verified_at", "is", null)
+    .limit(1);
+  if (error) throw error;
+  return Boolean(data?.length);
+};
+
+export class DomainTakenError extends Error {
+  constructor(message = "This domain is already verified by another account") {
+    super(message);
+    this.name = "DomainTakenError";
+  }
+}
+
+// Several accounts may claim a hostname; the first to pass the DNS check
+// gets it. Throws DomainTakenError once another account has verified it, and
+// returns null when this account already added it.
+export const addDomain = async (
+  userId: string,
+  hostname: string
+): Promise<CustomDomain | null> => {
+  if (await isVerifiedElsewhere(hostname, userId)) throw new DomainTakenError();
+
+  const { data, error } = await adminSupabase
+    .from("custom_domains")
+    .insert({
+      user_id: userId,
+      hostname,
+      verification_token: randomBytes(16).toString("hex"),
+    })
+    .select()
+    .single();
+  if (error?.code === "23505") return null;
+  if (error) throw error;
+  return data as CustomDomain;
+};
+
+export const removeDomain = async (
+  userId: string,
+  domainId: number
+): Promise<boolean> => {
+  const { data, error } = await adminSupabase
+    .from("custom_domains")
+    .delete()
+    .eq("user_id", userId)
+    .eq("id", domainId)
+    .select("id");
+  if (error) throw error;
+  invalidateDomainCache();
+  return Boolean(data?.length);
+};
+
+// Looks up the challenge TXT record and marks the domain verified when it
+// carries the expected token. DNS failures (NXDOMAIN, timeouts) just mean
+// "not verified yet".
+export const verifyDomain = async (domain: CustomDomain): Promise<CustomDomain> => {
+  const { name, value } = challengeRecord(domain);
+
+  let records: string[][] = [];
+  try {
+    records = await getDnsResolver().resolveTxt(name);
+  } catch (dnsError) {
+    console.warn(`TXT lookup for ${name} failed:`, (dnsError as Error).message);
+  }
+  // Long TXT values arrive split into 255-byte chunks
+  const verified = records.some((chunks) => chunks.join("").trim() === value);
+
+  const now = new Date().toISOString();
+  const { data, error } = await adminSupabase
+    .from("custom_domains")
+    .update({
+      last_checked_at: now,
+      ...(verified && !domain.verified_at ? { verified_at: now } : {}),
+    })
+    .eq("id", domain.id)
+    .select()
+    .single();
+  // The partial unique index: another account verified it first
+  if (error?.code === "23505") throw new DomainTakenError();
+  if (error) throw error;
+
+  if (verified && !domain.verified_at) {
+    // Stale claims by other accounts can never verify now
+    const { error: cleanupError } = await adminSupabase
+      .from("custom_domains")
+      .delete()
+      .eq("hostname", domain.hostname)
+      .is("verified_at", null);
+    if (cleanupError) console.error("Error removing stale domain claims:", cleanupError);
+  }
+  if (verified) invalidateDomainCache();
+  return data as CustomDomain;
+};
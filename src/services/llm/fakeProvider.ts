@@ -0,0 +1,55 @@
+import { createHash } from "crypto";
+import {
+  EMBEDDING_DIMENSIONS,
+  GenerationOptions,
+  LLMProvider,
+} from "./types.js";
+
+export type FakeResponder = (prompt: string, options: GenerationOptions) => string;
+
+// Deterministic stand-in for tests and offline development. By default it
+// echoes the last non-empty line of the prompt, which is where the question
+// lives in all our prompt templates.
+const echoLastLine: FakeResponder = (prompt, options) => {
+  const lines = prompt.split("\n").map((l) => l.trim()).filter(Boolean);
+  return `[${options.model ?? "fake-model"}] ${lines[lines.length - 1] ?? ""}`;
+};
+
+export class FakeProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly defaultModel = "fake-model";
+  readonly calls: Array<{ prompt: string; options: GenerationOptions }> = [];
+
+  constructor(private responder: FakeResponder = echoLastLine) {}
+
+  async generate(prompt: string, options: GenerationOptions = {}) {
+    this.calls.push({ prompt, options });
+    return this.responder(prompt, { model: this.defaultModel, ...options });
+  }
+
+  async *stream(prompt: string, options: GenerationOptions = {}) {
+    const reply = await this.generate(prompt, options);
+    for (const word of reply.match(/\S+\s*/g) ?? []) {
+      if (options.signal?.aborted) return;
+      yield word;
+    }
+  }
+
+  async countTokens(text: string) {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+
+  // Hashed bag-of-words: texts sharing words end up close together, which is
+  // enough to exercise retrieval without a real model.
+  async embed(texts: string[]) {
+    return texts.map((text) => {
+      const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+        const bucket = createHash("md5").update(word).digest().readUInt32BE(0);
+        vector[bucket % EMBEDDING_DIMENSIONS] += 1;
+      }
+      const norm = Math.hypot(...vector) || 1;
+      return vector.map((v) => v / norm);
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  EMBEDDING_DIMENSIONS,
+  GenerationOptions,
+  LLMProvider,
+} from "./types.js";
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini";
+  private client: GoogleGenerativeAI;
+
+  constructor(
+    apiKey: string,
+    readonly defaultModel = "gemini-2.0-flash",
+    private embeddingModel = "text-embedding-004"
+  ) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  private getModel(options: GenerationOptions) {
+    const { model, signal, ...config } = options;
+    return this.client.getGenerativeModel({
+      model: model || this.defaultModel,
+      generationConfig: { ...DEFAULT_GENERATION_OPTIONS, ...config },
+    });
+  }
+
+  async generate(prompt: string, options: GenerationOptions = {}) {
+    const result = await this.getModel(options).generateContent(prompt, {
+      signal: options.signal,
+    });
+    return result.response.text();
+  }
+
+  async *stream(prompt: string, options: GenerationOptions = {}) {
+    const result = await this.getModel(options).generateContentStream(prompt, {
+      signal: options.signal,
+    });
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      if (delta) yield delta;
+    }
+  }
+
+  async countTokens(text: string, options: GenerationOptions = {}) {
+    const { totalTokens } = await this.getModel(options).countTokens(text);
+    return totalTokens;
+  }
+
+  async embed(texts: string[]) {
+    if (!texts.length) return [];
+    const model = this.client.getGenerativeModel({ model: this.embeddingModel });
+    const { embeddings } = await model.batchEmbedContents({
+      requests: texts.map((text) => ({
+        content: { role: "user", parts: [{ text }] },
+      })),
+    });
+    return embeddings.map((e) => e.values.slice(0, EMBEDDING_DIMENSIONS));
+  }
+}
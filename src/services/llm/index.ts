@@ -0,0 +1,88 @@
+import dotenv from "dotenv";
+import { adminSupabase } from "../../config/supabaseClient.js";
+import { FakeProvider } from "./fakeProvider.js";
+import { GeminiProvider } from "./geminiProvider.js";
+import { OpenAICompatibleProvider } from "./openAICompatibleProvider.js";
+import { GenerationOptions, LLMProvider } from "./types.js";
+
+dotenv.config();
+
+export * from "./types.js";
+export { FakeProvider, GeminiProvider, OpenAICompatibleProvider };
+
+const createProvider = (): LLMProvider => {
+  switch (process.env.LLM_PROVIDER ?? "gemini") {
+    case "openai":
+      return new OpenAICompatibleProvider(
+        process.env.OPENAI_BASE_URL ?? "http://localhost:11434/v1",
+        process.env.OPENAI_API_KEY,
+        process.env.OPENAI_MODEL ?? "llama3.1",
+        process.env.OPENAI_EMBEDDING_MODEL
+      );
+    case "fake":
+      return new FakeProvider();
+    case "gemini":
+      return new GeminiProvider(
+        process.env.GOOGLE_API_KEY ?? "",
+        process.env.GEMINI_MODEL,
+        process.env.GEMINI_EMBEDDING_MODEL
+      );
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${process.env.LLM_PROVIDER}"`);
+  }
+};
+
+let provider: LLMProvider | null = null;
+
+export const getLLMProvider = (): LLMProvider => {
+  if (!provider) provider = createProvider();
+  return provider;
+};
+
+// Lets tests swap in a FakeProvider (or reset back to the env default)
+export const setLLMProvider = (next: LLMProvider | null) => {
+  provider = next;
+};
+
+// Models owners may pick in the builder: the provider's default plus any
+// listed in LLM_ALLOWED_MODELS (comma-separated)
+export const getAllowedModels = (): string[] => {
+  const configured = (process.env.LLM_ALLOWED_MODELS ?? "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+  return [...new Set([getLLMProvider().defaultModel, ...configured])];
+};
+
+export const isAllowedModel = (model: string) =>
+  getAllowedModels().includes(model);
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+// Model and temperature chosen by the portfolio owner in the builder
+export const getOwnerGenerationOptions = async (
+  userId: string
+): Promise<GenerationOptions> => {
+  const { data, error } = await adminSupabase
+    .from("builder_settings")
+    .select("ai_model, ai_temperature")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    // Fall back to provider defaults rather than failing the chat
+    console.error("Error fetching AI settings:", error);
+    return {};
+  }
+
+  const options: GenerationOptions = {};
+  // Saved before the allow-list changed: use the default instead
+  if (data?.ai_model && isAllowedModel(data.ai_model)) {
+    options.model = data.ai_model;
+  }
+  if (typeof data?.ai_temperature === "number") {
+    options.temperature = clamp(data.ai_temperature, 0, 2);
+  }
+  return options;
+};
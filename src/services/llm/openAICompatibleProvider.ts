@@ -0,0 +1,146 @@
+import {
+  DEFAULT_GENERATION_OPTIONS,
+  EMBEDDING_DIMENSIONS,
+  estimateTokens,
+  GenerationOptions,
+  LLMProvider,
+} from "./types.js";
+
+// cv_chunks stores vector(EMBEDDING_DIMENSIONS). Longer vectors are trimmed
+// like Gemini's (text-embedding-3-* and other Matryoshka models keep their
+// quality); shorter ones can't be stored, so fail loudly.
+const fitEmbedding = (embedding: number[], model: string) => {
+  if (embedding.length < EMBEDDING_DIMENSIONS) {
+    throw new Error(
+      `Embedding model ${model} returned ${embedding.length} dimensions; at least ${EMBEDDING_DIMENSIONS} are needed`
+    );
+  }
+  return embedding.slice(0, EMBEDDING_DIMENSIONS);
+};
+
+// The parts of the OpenAI API responses we read
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string | null } }>;
+}
+
+interface EmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+// Yields the body's bytes as text, one decoded piece at a time
+async function* readText(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Talks to anything that implements the OpenAI chat completions API:
+// OpenAI itself, Ollama (`/v1`), llama.cpp server, vLLM, ...
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai";
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string | undefined,
+    readonly defaultModel: string,
+    private embeddingModel = "nomic-embed-text"
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  private headers() {
+    return {
+      "Content-Type": "application/json",
+      ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+    };
+  }
+
+  private async request(
+    prompt: string,
+    options: GenerationOptions,
+    stream: boolean
+  ) {
+    const config = { ...DEFAULT_GENERATION_OPTIONS, ...options };
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: options.model || this.defaultModel,
+        messages: [{ role: "user", content: prompt }],
+        temperature: config.temperature,
+        top_p: config.topP,
+        max_tokens: config.maxOutputTokens,
+        stream,
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(
+        `LLM API error ${response.status}: ${body.slice(0, 200)}`
+      );
+    }
+    return response;
+  }
+
+  async generate(prompt: string, options: GenerationOptions = {}) {
+    const response = await this.request(prompt, options, false);
+    const json = (await response.json()) as ChatCompletionResponse;
+    return json.choices?.[0]?.message?.content ?? "";
+  }
+
+  async *stream(prompt: string, options: GenerationOptions = {}) {
+    const response = await this.request(prompt, options, true);
+    if (!response.body) return;
+
+    let buffer = "";
+    for await (const text of readText(response.body)) {
+      buffer += text;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === "[DONE]") return;
+        const chunk = JSON.parse(payload) as ChatCompletionChunk;
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+
+  async countTokens(text: string) {
+    return estimateTokens(text);
+  }
+
+  async embed(texts: string[]) {
+    if (!texts.length) return [];
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({ model: this.embeddingModel, input: texts }),
+    });
+    if (!response.ok) {
+      throw new Error(`LLM API error ${response.status} while embedding`);
+    }
+    const json = (await response.json()) as EmbeddingResponse;
+    return json.data
+      .sort((a, b) => a.index - b.index)
+      .map((d) => fitEmbedding(d.embedding, this.embeddingModel));
+  }
+}
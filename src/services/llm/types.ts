@@ -0,0 +1,32 @@
+export interface GenerationOptions {
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly defaultModel: string;
+  generate(prompt: string, options?: GenerationOptions): Promise<string>;
+  // Yields text deltas as they arrive
+  stream(prompt: string, options?: GenerationOptions): AsyncIterable<string>;
+  countTokens(text: string, options?: GenerationOptions): Promise<number>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Must match the vector(...) column in cv_chunks
+export const EMBEDDING_DIMENSIONS = 768;
+
+export const DEFAULT_GENERATION_OPTIONS = {
+  temperature: 0.7,
+  topP: 0.8,
+  topK: 40,
+  maxOutputTokens: 2048,
+};
+
+// Rough chars-per-token ratio for providers without a tokenizer endpoint
+export const estimateTokens = (text: string): number =>
+  Math.ceil(text.length / 4);
@@ -0,0 +1,272 @@
+import { Provider, Session, User } from "@supabase/supabase-js";
+import { adminSupabase, createAuthClient } from "../config/supabaseClient.js";
+
+// URL name -> Supabase provider. LinkedIn uses the OpenID Connect provider;
+// the legacy one no longer issues new apps.
+export const OAUTH_PROVIDERS: Record<string, { provider: Provider; scopes?: string }> = {
+  github: { provider: "github", scopes: "read:user user:email" },
+  google: { provider: "google" },
+  linkedin: { provider: "linkedin_oidc", scopes: "openid profile email" },
+};
+
+export const OAUTH_STATE_COOKIE = "oauth-state";
+export const OAUTH_STATE_MAX_AGE_MS = 10 * 60 * 1000;
+
+// Carried in an httpOnly cookie from the start request to the callback
+export interface OAuthState {
+  provider: string;
+  code_verifier: string;
+  redirect_to: string;
+  link: boolean;
+}
+
+export class OAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OAuthError";
+  }
+}
+
+export const findOAuthProvider = (name: string) =>
+  Object.prototype.hasOwnProperty.call(OAUTH_PROVIDERS, name)
+    ? OAUTH_PROVIDERS[name]
+    : undefined;
+
+// Only same-site paths, so the callback can't be used as an open redirect
+export const safeRedirectPath = (value: unknown): string =>
+  typeof value === "string" && /^\/(?![/\\])/.test(value) ? value : "/";
+
+export const oauthCallbackUrl = (name: string) =>
+  `${process.env.BACKEND_URL ?? ""}/auth/oauth/${name}/callback`;
+
+const STORAGE_KEY = "oauth";
+const VERIFIER_KEY = `${STORAGE_KEY}-code-verifier`;
+
+// Throwaway PKCE client with request-scoped storage, so the code verifier
+// it generates can be handed to the cookie and put back at the callback
+const pkceClient = (codeVerifier?: string) => {
+  const items = new Map<string, string>();
+  if (codeVerifier) items.set(VERIFIER_KEY, codeVerifier);
+
+  const client = createAuthClient({
+    flowType: "pkce",
+    persistSession: true,
+    storageKey: STORAGE_KEY,
+    storage: {
+      getItem: (key) => items.get(key) ?? null,
+      setItem: (key, value) => {
+        items.set(key, value);
+      },
+      removeItem: (key) => {
+        items.delete(key);
+      },
+    },
+  });
+  return { client, codeVerifier: () => items.get(VERIFIER_KEY) ?? "" };
+};
+
+// Provider authorize URL for signing in (or signing up)
+export const startOAuthSignIn = async (name: string) => {
+  const { provider, scopes } = OAUTH_PROVIDERS[name];
+  const { client, codeVerifier } = pkceClient();
+
+  const { data, error } = await client.auth.signInWithOAuth({
+    provider,
+    options: {
+      redirectTo: oauthCallbackUrl(name),
+      scopes,
+      skipBrowserRedirect: true,
+    },
+  });
+  if (error || !data.url) {
+    throw new OAuthError(error?.message ?? "Could not start sign-in");
+  }
+  return { url: data.url, codeVerifier: codeVerifier() };
+};
+
+// Provider authorize URL for adding an identity to the signed-in account.
+// Needs "manual linking" enabled in the Supabase auth settings.
+export const startIdentityLink = async (name: string, accessToken: string) => {
+  const { provider, scopes } = OAUTH_PROVIDERS[name];
+  const { client, codeVerifier } = pkceClient();
+
+  // authenticate() already verified the token and it hasn't expired, so the
+  // refresh token is never used
+  const { error: sessionError } = await client.auth.setSession({
+    access_token: accessToken,
+    refresh_token: "unused",
+  });
+  if (sessionError) throw new OAuthError(sessionError.message);
+
+  const { data, error } = await client.auth.linkIdentity({
+    provider,
+    options: { redirectTo: oauthCallbackUrl(name), scopes },
+  });
+  if (error || !data.url) {
+    throw new OAuthError(error?.message ?? "Could not start linking");
+  }
+  return { url: data.url, codeVerifier: codeVerifier() };
+};
+
+// Emails a PKCE magic link for an existing account. The returned verifier
+// must come back with the link's code, so the link works in the browser
+// that asked for it (other devices can use the emailed code instead).
+export const startMagicLink = async (email: string, redirectTo: string) => {
+  const { client, codeVerifier } = pkceClient();
+  const { error } = await client.auth.signInWithOtp({
+    email,
+    options: { shouldCreateUser: false, emailRedirectTo: redirectTo },
+  });
+  return { error, codeVerifier: codeVerifier() };
+};
+
+// Shared by the email confirmation callback and the OAuth callbacks
+export const exchangeAuthCode = async (
+  code: string,
+  codeVerifier?: string
+): Promise<{ session: Session; user: User }> => {
+  const { client } = pkceClient(codeVerifier);
+  const { data, error } = await client.auth.exchangeCodeForSession(code);
+  if (error || !data.session) {
+    throw new OAuthError(error?.message ?? "Could not complete sign-in");
+  }
+  return { session: data.session, user: data.user };
+};
+
+const slugify = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 30);
+
+// Name and preferred user name from whatever the provider put in the
+// user metadata (GitHub: user_name, Google/LinkedIn: name, given_name...)
+const profileFromMetadata = (user: User) => {
+  const meta = user.user_metadata ?? {};
+  const emailName = user.email?.split("@")[0] ?? "";
+  const name =
+    meta.full_name ||
+    meta.name ||
+    [meta.given_name, meta.family_name].filter(Boolean).join(" ") ||
+    emailName;
+
+  const userName =
+    slugify(meta.user_name || meta.preferred_username || "") ||
+    slugify(name) ||
+    slugify(emailName) ||
+    "user";
+
+  return { name: String(name).trim() || userName, userName };
+};
+
+// First free "<base>", "<base>-2", "<base>-3"... Slugs are matched
+// case-insensitively, so the comparison is too.
+const availableUserName = async (base: string) => {
+  const { data, error } = await adminSupabase
+    .from("profiles")
+    .select("user_name")
+    .ilike("user_name", `${base}%`);
+  if (error) throw error;
+
+  const taken = new Set(
+    (data ?? []).map((row) => String(row.user_name).toLowerCase())
+  );
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base}-${n}`)) n++;
+  return `${base}-${n}`;
+};
+
+const UNIQUE_VIOLATION = "23505";
+
+// OAuth sign-ups carry no user_name, so the profile may be missing or
+// incomplete after the first callback. Fills in only what's missing.
+export const ensureOAuthProfile = async (user: User): Promise<void> => {
+  const { data: profile, error } = await adminSupabase
+    .from("profiles")
+    .select("id, name, user_name")
+    .eq("id", user.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (profile?.name && profile?.user_name) return;
+
+  const derived = profileFromMetadata(user);
+
+  // Another sign-up can take the same name between the check and the
+  // write; retry with a fresh suffix
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const changes: Record<string, string> = {};
+    if (!profile?.name) changes.name = derived.name;
+    if (!profile?.user_name) {
+      const base =
+        attempt === 0
+          ? derived.userName
+          : `${derived.userName}-${Math.random().toString(36).slice(2, 6)}`;
+      changes.user_name = await availableUserName(base);
+    }
+
+    const { error: writeError } = profile
+      ? await adminSupabase.from("profiles").update(changes).eq("id", user.id)
+      : await adminSupabase
+          .from("profiles")
+          .insert({ id: user.id, email: user.email, ...changes });
+
+    if (!writeError) return;
+    if (writeError.code !== UNIQUE_VIOLATION) throw writeError;
+  }
+  throw new Error(`Could not pick a free user name for ${user.id}`);
+};
+
+export interface LinkedIdentity {
+  provider: string;
+  identity_id: string;
+  email: string | null;
+  created_at: string | null;
+  last_sign_in_at: string | null;
+}
+
+// Maps Supabase provider ids back to the names used in our URLs
+const providerName = (provider: string) =>
+  Object.keys(OAUTH_PROVIDERS).find(
+    (name) => OAUTH_PROVIDERS[name].provider === provider
+  ) ?? provider;
+
+export const listIdentities = (user: User): LinkedIdentity[] =>
+  (user.identities ?? []).map((identity) => ({
+    provider: providerName(identity.provider),
+    identity_id: identity.identity_id,
+    email: (identity.identity_data?.email as string | undefined) ?? null,
+    created_at: identity.created_at ?? null,
+    last_sign_in_at: identity.last_sign_in_at ?? null,
+  }));
+
+// Removes one provider from the account. The last remaining identity
+// can't be removed, or the account would have no way to sign in.
+export const unlinkIdentity = async (
+  user: User,
+  accessToken: string,
+  name: string
+): Promise<boolean> => {
+  const identities = user.identities ?? [];
+  const identity = identities.find(
+    (candidate) => candidate.provider === OAUTH_PROVIDERS[name].provider
+  );
+  if (!identity) return false;
+  if (identities.length < 2) {
+    throw new OAuthError("Can't remove the only way to sign in to this account");
+  }
+
+  const { client } = pkceClient();
+  const { error: sessionError } = await client.auth.setSession({
+    access_token: accessToken,
+    refresh_token: "unused",
+  });
+  if (sessionError) throw new OAuthError(sessionError.message);
+
+  const { error } = await client.auth.unlinkIdentity(identity);
+  if (error) throw new OAuthError(error.message);
+  return true;
+};
@@ -0,0 +1,227 @@
+import { adminSupabase } from "../config/supabaseClient.js";
+import {
+  BuilderSettings,
+  DEFAULT_BUILDER_SETTINGS,
+  findBuilderSettings,
+  PublicBuilderSettings,
+  toPublicSettings,
+} from "./builderSettingsService.js";
+import { getOrParseCv } from "./cv/index.js";
+import { ParsedCV } from "./cv/types.js";
+import { findPublication, unavailableStatus } from "./publishService.js";
+
+export interface PortfolioOwner {
+  id: string;
+  name: string;
+  user_name: string;
+  active_cv_id: number | null;
+  // Set by an admin; suspended portfolios are hidden from visitors
+  suspended_at: string | null;
+  // Pending self-service deletion; the portfolio is hidden meanwhile
+  deletion_scheduled_at: string | null;
+}
+
+export const OWNER_COLUMNS =
+  "id, name, user_name, active_cv_id, suspended_at, deletion_scheduled_at";
+
+// Case-insensitive slug lookup, same matching as the public chat route
+export const findProfileBySlug = async (
+  slug: string
+): Promise<PortfolioOwner | null> => {
+  const { data, error } = await adminSupabase
+    .from("profiles")
+    .select(OWNER_COLUMNS)
+    .ilike("user_name", slug)
+    .limit(1);
+  if (error) throw error;
+  return (data?.[0] as PortfolioOwner | undefined) ?? null;
+};
+
+export const findProfileById = async (
+  userId: string
+): Promise<PortfolioOwner | null> => {
+  const { data, error } = await adminSupabase
+    .from("profiles")
+    .select(OWNER_COLUMNS)
+    .eq("id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as PortfolioOwner | null;
+};
+
+export interface PortfolioCv {
+  id: number;
+  extracted_text: string | null;
+  parsed_cv: ParsedCV | null;
+  summary: string | null;
+  original_name: string;
+  created_at: string;
+  updated_at: string | null;
+}
+
+const CV_COLUMNS =
+  "id, extracted_text, parsed_cv, summary, original_name, created_at, updated_at";
+
+const findOwnerCv = async (
+  ownerId: string,
+  cvId: number
+): Promise<PortfolioCv | null> => {
+  const { data, error } = await adminSupabase
+    .from("cv_uploads")
+    .select(CV_COLUMNS)
+    .eq("user_id", ownerId)
+    .eq("id", cvId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as PortfolioCv | null;
+};
+
+// The CV the owner marked active, otherwise their most recent fully
+// processed upload. Always scoped to the owner's own uploads.
+export const findActiveCv = async (
+  owner: PortfolioOwner
+): Promise<PortfolioCv | null> => {
+  if (owner.active_cv_id) return findOwnerCv(owner.id, owner.active_cv_id);
+
+  const { data, error } = await adminSupabase
+    .from("cv_uploads")
+    .select(CV_COLUMNS)
+    .eq("user_id", owner.id)
+    .eq("status", "processed")
+    .order("created_at", { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return (data?.[0] as PortfolioCv | undefined) ?? null;
+};
+
+export type PortfolioContent =
+  | {
+      ok: true;
+      owner: PortfolioOwner;
+      settings: BuilderSettings | null;
+      cv: PortfolioCv | null;
+      // When the settings last changed (publish time for the live version)
+      changedAt: string | null;
+    }
+  | { ok: false; status: UnavailableStatus };
+
+export type UnavailableStatus = 403 | 404 | 410;
+
+export const UNAVAILABLE_MESSAGES: Record<UnavailableStatus, string> = {
+  403: "This portfolio has been suspended.",
+  404: "Portfolio not found.",
+  410: "This portfolio is no longer published.",
+};
+
+// What visitors see is the published snapshot; `draft` loads the owner's
+// working copy instead (previews).
+export const loadPortfolioContent = async (
+  owner: PortfolioOwner,
+  { draft = false }: { draft?: boolean } = {}
+): Promise<PortfolioContent> => {
+  if (draft) {
+    const [settings, cv] = await Promise.all([
+      findBuilderSettings(owner.id),
+      findActiveCv(owner),
+    ]);
+    return { ok: true, owner, settings, cv, changedAt: settings?.updated_at ?? null };
+  }
+
+  if (owner.suspended_at) return { ok: false, status: 403 };
+  if (owner.deletion_scheduled_at) return { ok: false, status: 410 };
+
+  const publication = await findPublication(owner.id);
+  const status = unavailableStatus(publication);
+  if (status || !publication) return { ok: false, status: status ?? 404 };
+
+  return {
+    ok: true,
+    owner,
+    settings: publication.settings,
+    cv: publication.cv_id ? await findOwnerCv(owner.id, publication.cv_id) : null,
+    changedAt: publication.published_at,
+  };
+};
+
+export interface PublicPortfolio {
+  profile: {
+    name: string;
+    user_name: string;
+    email?: string;
+  };
+  settings: PublicBuilderSettings;
+  cv: {
+    id: number;
+    summary: string | null;
+    sections: ParsedCV | null;
+    updated_at: string;
+  } | null;
+}
+
+// The parsed CV as visitors may see it. The contact block comes straight
+// from the CV text: the email only shows with `show_email`, the phone never.
+export const toPublicParsedCv = (
+  parsed: ParsedCV,
+  settings: BuilderSettings | null
+): ParsedCV => ({
+  ...parsed,
+  contact: {
+    ...parsed.contact,
+    email: settings?.show_email ? parsed.contact.email : null,
+    phone: null,
+  },
+});
+
+// The owner's account email, when the published settings let visitors see it
+export const findPublicEmail = async (
+  content: Extract<PortfolioContent, { ok: true }>
+): Promise<string | null> => {
+  if (!content.settings?.show_email) return null;
+
+  const { data, error } = await adminSupabase
+    .from("profiles")
+    .select("email")
+    .eq("id", content.owner.id)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.email ?? null;
+};
+
+// Everything the public portfolio page needs in one object. Private fields
+// (email, model settings, limits) are left out unless the owner opted in.
+export const buildPublicPortfolio = async (
+  content: Extract<PortfolioContent, { ok: true }>
+): Promise<{ portfolio: PublicPortfolio; lastModified: Date }> => {
+  const { owner, settings, cv } = content;
+  const email = await findPublicEmail(content);
+
+  const parsed = cv ? await getOrParseCv(cv) : null;
+  const sections = parsed && toPublicParsedCv(parsed, settings);
+
+  const timestamps = [content.changedAt, cv?.updated_at, cv?.created_at]
+    .filter((t): t is string => Boolean(t))
+    .map((t) => new Date(t).getTime());
+
+  return {
+    portfolio: {
+      profile: {
+        name: owner.name,
+        user_name: owner.user_name,
+        ...(email ? { email } : {}),
+      },
+      settings: toPublicSettings(settings ?? DEFAULT_BUILDER_SETTINGS),
+      cv: cv
+        ? {
+            id: cv.id,
+            summary: cv.summary,
+            sections,
+            updated_at: cv.updated_at ?? cv.created_at,
+          }
+        : null,
+    },
+    // HTTP dates have one-second resolution
+    lastModified: new Date(
+      Math.floor(Math.max(0, ...timestamps) / 1000) * 1000
+    ),
+  };
+};
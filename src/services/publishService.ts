@@ -0,0 +1,90 @@
+import { adminSupabase } from "../config/supabaseClient.js";
+import { BuilderSettings } from "./builderSettingsService.js";
+import { signToken, verifyToken } from "../utils/signedToken.js";
+
+export interface Publication {
+  user_id: string;
+  settings: BuilderSettings | null;
+  cv_id: number | null;
+  published: boolean;
+  published_at: string;
+  unpublished_at: string | null;
+}
+
+export const findPublication = async (
+  userId: string
+): Promise<Publication | null> => {
+  const { data, error } = await adminSupabase
+    .from("published_portfolios")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as Publication | null;
+};
+
+// Promotes the current draft settings and CV in one database statement
+export const publishPortfolio = async (userId: string): Promise<Publication> => {
+  const { data, error } = await adminSupabase.rpc("publish_portfolio", {
+    p_user_id: userId,
+  });
+  if (error) throw error;
+  const publication = (data as Publication[] | null)?.[0];
+  if (!publication) throw new Error(`No profile for user ${userId}`);
+  return publication;
+};
+
+// Keeps the snapshot so a later publish can bring the portfolio back
+export const unpublishPortfolio = async (
+  userId: string
+): Promise<Publication | null> => {
+  const { data, error } = await adminSupabase
+    .from("published_portfolios")
+    .update({ published: false, unpublished_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  return data as Publication | null;
+};
+
+// What visitors get when there is nothing live: 404 if the portfolio was
+// never published, 410 once the owner took it down
+export const unavailableStatus = (
+  publication: Publication | null
+): 404 | 410 | null => {
+  if (!publication) return 404;
+  return publication.published ? null : 410;
+};
+
+const PREVIEW_TOKEN_TTL_SECONDS = Number(
+  process.env.PREVIEW_TOKEN_TTL_SECONDS ?? 15 * 60
+);
+
+const previewSecret = () => {
+  const secret = process.env.PREVIEW_TOKEN_SECRET;
+  if (!secret) throw new Error("PREVIEW_TOKEN_SECRET is not set");
+  return secret;
+};
+
+// Short-lived, shareable link credential for viewing an owner's draft
+export const createPreviewToken = (userId: string) => ({
+  token: signToken(
+    { sub: userId, purpose: "preview" },
+    previewSecret(),
+    PREVIEW_TOKEN_TTL_SECONDS
+  ),
+  expires_in: PREVIEW_TOKEN_TTL_SECONDS,
+});
+
+// The owner's user id, or null for an invalid / expired token
+export const verifyPreviewToken = (token: string): string | null => {
+  const payload = verifyToken<{ sub?: unknown; purpose?: unknown }>(
+    token,
+    previewSecret()
+  );
+  if (payload?.purpose !== "preview" || typeof payload.sub !== "string") {
+    return null;
+  }
+  return payload.sub;
+};
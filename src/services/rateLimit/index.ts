@@ -0,0 +1,103 @@
+import dotenv from "dotenv";
+import { adminSupabase } from "../../config/supabaseClient.js";
+import {
+  MemoryRateLimitStore,
+  RateLimitStore,
+  SupabaseRateLimitStore,
+} from "./stores.js";
+
+dotenv.config();
+
+export * from "./stores.js";
+
+export interface ChatLimits {
+  perIpPerMinute: number;
+  perPortfolioPerMinute: number;
+  dailyTokenBudget: number;
+}
+
+// Platform ceilings; owners can lower these in their builder settings but
+// never raise them.
+export const DEFAULT_CHAT_LIMITS: ChatLimits = {
+  perIpPerMinute: Number(process.env.CHAT_RATE_LIMIT_PER_IP ?? 10),
+  perPortfolioPerMinute: Number(process.env.CHAT_RATE_LIMIT_PER_PORTFOLIO ?? 60),
+  dailyTokenBudget: Number(process.env.CHAT_DAILY_TOKEN_BUDGET ?? 200000),
+};
+
+let store: RateLimitStore | null = null;
+
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store =
+      process.env.RATE_LIMIT_STORE === "supabase"
+        ? new SupabaseRateLimitStore()
+        : new MemoryRateLimitStore();
+  }
+  return store;
+};
+
+export const setRateLimitStore = (next: RateLimitStore | null) => {
+  store = next;
+};
+
+const LIMITS_CACHE_MS = 60 * 1000;
+const limitsCache = new Map<string, { limits: ChatLimits; expiresAt: number }>();
+
+const ownerLimit = (value: unknown, ceiling: number) =>
+  typeof value === "number" && value >= 0 ? Math.min(value, ceiling) : ceiling;
+
+export const getChatLimits = async (ownerId: string): Promise<ChatLimits> => {
+  const cached = limitsCache.get(ownerId);
+  if (cached && cached.expiresAt > Date.now()) return cached.limits;
+
+  const { data, error } = await adminSupabase
+    .from("builder_settings")
+    .select("chat_rate_limit_per_ip, chat_rate_limit_per_portfolio, daily_token_budget")
+    .eq("user_id", ownerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching chat limits:", error);
+    return DEFAULT_CHAT_LIMITS;
+  }
+
+  const limits = {
+    perIpPerMinute: ownerLimit(
+      data?.chat_rate_limit_per_ip,
+      DEFAULT_CHAT_LIMITS.perIpPerMinute
+    ),
+    perPortfolioPerMinute: ownerLimit(
+      data?.chat_rate_limit_per_portfolio,
+      DEFAULT_CHAT_LIMITS.perPortfolioPerMinute
+    ),
+    dailyTokenBudget: ownerLimit(
+      data?.daily_token_budget,
+      DEFAULT_CHAT_LIMITS.dailyTokenBudget
+    ),
+  };
+  limitsCache.set(ownerId, { limits, expiresAt: Date.now() + LIMITS_CACHE_MS });
+  return limits;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Daily budgets reset at UTC midnight
+const tokenBudgetKey = (ownerId: string) =>
+  `tokens:${ownerId}:${new Date().toISOString().slice(0, 10)}`;
+
+const msUntilUtcMidnight = () => DAY_MS - (Date.now() % DAY_MS);
+
+export const getTokenUsage = async (ownerId: string) =>
+  (await getRateLimitStore().peek(tokenBudgetKey(ownerId))) ?? {
+    count: 0,
+    resetAt: Date.now() + msUntilUtcMidnight(),
+  };
+
+export const recordTokenUsage = async (ownerId: string, tokens: number) => {
+  if (tokens <= 0) return;
+  await getRateLimitStore().increment(
+    tokenBudgetKey(ownerId),
+    tokens,
+    msUntilUtcMidnight()
+  );
+};
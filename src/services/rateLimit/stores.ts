@@ -0,0 +1,88 @@
+import { adminSupabase } from "../../config/supabaseClient.js";
+
+export interface CounterState {
+  count: number;
+  // Epoch milliseconds when the current window ends
+  resetAt: number;
+}
+
+// Fixed-window counters. `increment` must be atomic per key.
+export interface RateLimitStore {
+  increment(key: string, amount: number, windowMs: number): Promise<CounterState>;
+  peek(key: string): Promise<CounterState | null>;
+}
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Single-process store for development and tests. Expired windows are swept
+// out periodically so one entry per visitor IP doesn't accumulate forever.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, CounterState>();
+  private lastSweep = Date.now();
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    for (const [key, state] of this.counters) {
+      if (state.resetAt <= now) this.counters.delete(key);
+    }
+  }
+
+  get size() {
+    return this.counters.size;
+  }
+
+  async increment(key: string, amount: number, windowMs: number) {
+    const now = Date.now();
+    this.sweep(now);
+    let state = this.counters.get(key);
+    if (!state || state.resetAt <= now) {
+      state = { count: 0, resetAt: now + windowMs };
+      this.counters.set(key, state);
+    }
+    state.count += amount;
+    return { ...state };
+  }
+
+  async peek(key: string) {
+    const state = this.counters.get(key);
+    if (!state) return null;
+    if (state.resetAt <= Date.now()) {
+      this.counters.delete(key);
+      return null;
+    }
+    return { ...state };
+  }
+
+  reset() {
+    this.counters.clear();
+  }
+}
+
+// Shared store for serverless deployments, where every invocation may run in
+// a fresh process. The upsert happens inside the rate_limit_increment RPC.
+export class SupabaseRateLimitStore implements RateLimitStore {
+  async increment(key: string, amount: number, windowMs: number) {
+    const { data, error } = await adminSupabase.rpc("rate_limit_increment", {
+      p_key: key,
+      p_amount: amount,
+      p_window_ms: windowMs,
+    });
+    if (error) throw error;
+    const row = Array.isArray(data) ? data[0] : data;
+    return { count: row.count, resetAt: new Date(row.reset_at).getTime() };
+  }
+
+  async peek(key: string) {
+    const { data, error } = await adminSupabase
+      .from("rate_limit_counters")
+      .select("count, reset_at")
+      .eq("key", key)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+
+    const resetAt = new Date(data.reset_at).getTime();
+    return resetAt > Date.now() ? { count: data.count, resetAt } : null;
+  }
+}
@@ -0,0 +1,90 @@
+export interface CvChunk {
+  section: string;
+  chunk_index: number;
+  content: string;
+}
+
+const MAX_CHUNK_CHARS = 1200;
+const DEFAULT_SECTION = "General";
+
+// A heading is either a markdown heading (pdf2md emits these for larger
+// fonts) or a short line written entirely in capitals, e.g. "WORK EXPERIENCE".
+const headingFrom = (line: string): string | null => {
+  const trimmed = line.trim();
+  const md = trimmed.match(/^#{1,6}\s+(.+)$/);
+  if (md) return md[1].replace(/[*_`]/g, "").trim();
+
+  const bold = trimmed.match(/^\*\*([^*]{2,60})\*\*:?$/);
+  if (bold) return bold[1].trim();
+
+  if (
+    trimmed.length >= 3 &&
+    trimmed.length <= 40 &&
+    /[A-Z]/.test(trimmed) &&
+    trimmed === trimmed.toUpperCase() &&
+    !/[.@]/.test(trimmed)
+  ) {
+    return trimmed.replace(/:$/, "");
+  }
+  return null;
+};
+
+export const splitIntoSections = (markdown: string) => {
+  const sections: Array<{ title: string; body: string }> = [];
+  let current = { title: DEFAULT_SECTION, lines: [] as string[] };
+
+  const flush = () => {
+    const body = current.lines.join("\n").trim();
+    if (body) sections.push({ title: current.title, body });
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = headingFrom(line);
+    if (heading) {
+      flush();
+      current = { title: heading, lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+};
+
+// Packs paragraphs into chunks of at most MAX_CHUNK_CHARS. Paragraphs longer
+// than that are hard-split so no chunk blows past the embedding input limit.
+const packParagraphs = (body: string): string[] => {
+  const chunks: string[] = [];
+  let current = "";
+
+  const paragraphs = body
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .flatMap((p) =>
+      p.length <= MAX_CHUNK_CHARS
+        ? [p]
+        : p.match(new RegExp(`[\\s\\S]{1,${MAX_CHUNK_CHARS}}`, "g")) ?? []
+    );
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > MAX_CHUNK_CHARS) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+export const chunkCv = (markdown: string): CvChunk[] => {
+  let index = 0;
+  return splitIntoSections(markdown).flatMap(({ title, body }) =>
+    packParagraphs(body).map((content) => ({
+      section: title,
+      chunk_index: index++,
+      content,
+    }))
+  );
+};
@@ -0,0 +1,124 @@
+import dotenv from "dotenv";
+import { getLLMProvider } from "../llm/index.js";
+import { chunkCv } from "./chunker.js";
+import {
+  MemoryVectorStore,
+  ScoredChunk,
+  SupabaseVectorStore,
+  VectorStore,
+} from "./vectorStore.js";
+
+dotenv.config();
+
+export * from "./chunker.js";
+export * from "./vectorStore.js";
+
+const DEFAULT_TOP_K = Number(process.env.RETRIEVAL_TOP_K ?? 5);
+
+let store: VectorStore | null = null;
+
+export const getVectorStore = (): VectorStore => {
+  if (!store) {
+    store =
+      process.env.VECTOR_STORE === "memory"
+        ? new MemoryVectorStore()
+        : new SupabaseVectorStore();
+  }
+  return store;
+};
+
+export const setVectorStore = (next: VectorStore | null) => {
+  store = next;
+};
+
+// Splits the CV into section-aware chunks, embeds them and replaces whatever
+// was indexed for this CV before. Returns the number of chunks stored.
+export const indexCv = async (cvId: number | string, markdown: string) => {
+  const chunks = chunkCv(markdown);
+  const embeddings = await getLLMProvider().embed(chunks.map((c) => c.content));
+  await getVectorStore().replaceChunks(
+    cvId,
+    chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] }))
+  );
+  return chunks.length;
+};
+
+const words = (text: string) =>
+  new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []);
+
+// Fallback when embedding or the vector store fails: chunks ranked by how
+// many of the query's words they contain. With no overlap at all the whole
+// CV is returned, as before retrieval existed.
+export const keywordSearchChunks = (
+  markdown: string,
+  query: string,
+  topK = DEFAULT_TOP_K
+): ScoredChunk[] => {
+  const chunks = chunkCv(markdown);
+  const queryWords = words(query);
+  const scored = chunks
+    .map((chunk) => {
+      const chunkWords = words(chunk.content);
+      let hits = 0;
+      for (const word of queryWords) if (chunkWords.has(word)) hits++;
+      return { ...chunk, score: queryWords.size ? hits / queryWords.size : 0 };
+    })
+    .filter((chunk) => chunk.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+
+  return scored.length ? scored : chunks.map((chunk) => ({ ...chunk, score: 0 }));
+};
+
+const vectorSearch = async (
+  cvId: number | string,
+  markdown: string,
+  query: string,
+  topK: number
+) => {
+  const vectorStore = getVectorStore();
+  if (!(await vectorStore.hasChunks(cvId))) {
+    await indexCv(cvId, markdown);
+  }
+
+  const [embedding] = await getLLMProvider().embed([query]);
+  return vectorStore.search(cvId, embedding, topK);
+};
+
+// Top-k chunks for `query`. CVs uploaded before chunking existed are indexed
+// on first use from their stored text.
+export const retrieveCvChunks = async (
+  cvId: number | string,
+  markdown: string,
+  query: string,
+  topK = DEFAULT_TOP_K
+): Promise<ScoredChunk[]> => {
+  let chunks: ScoredChunk[];
+  try {
+    chunks = await vectorSearch(cvId, markdown, query, topK);
+  } catch (err) {
+    console.error(`Vector retrieval failed for CV ${cvId}, using keyword search:`, err);
+    chunks = keywordSearchChunks(markdown, query, topK);
+  }
+  // Keep CV order in the prompt so the model reads sections top to bottom
+  return chunks.sort((a, b) => a.chunk_index - b.chunk_index);
+};
+
+export const formatChunksForPrompt = (chunks: ScoredChunk[]) =>
+  chunks
+    .map((chunk) => `[Section: ${chunk.section}]\n${chunk.content}`)
+    .join("\n\n");
+
+export const citationsFor = (chunks: ScoredChunk[]) => {
+  const sections = new Map<string, number[]>();
+  for (const chunk of chunks) {
+    sections.set(chunk.section, [
+      ...(sections.get(chunk.section) ?? []),
+      chunk.chunk_index,
+    ]);
+  }
+  return [...sections].map(([section, chunk_indexes]) => ({
+    section,
+    chunk_indexes,
+  }));
+};
@@ -0,0 +1,99 @@
+import { adminSupabase } from "../../config/supabaseClient.js";
+import { CvChunk } from "./chunker.js";
+
+export interface EmbeddedChunk extends CvChunk {
+  embedding: number[];
+}
+
+export interface ScoredChunk extends CvChunk {
+  score: number;
+}
+
+export interface VectorStore {
+  replaceChunks(cvId: number | string, chunks: EmbeddedChunk[]): Promise<void>;
+  hasChunks(cvId: number | string): Promise<boolean>;
+  search(
+    cvId: number | string,
+    embedding: number[],
+    topK: number
+  ): Promise<ScoredChunk[]>;
+}
+
+// pgvector-backed store; similarity search runs in the match_cv_chunks RPC
+export class SupabaseVectorStore implements VectorStore {
+  async replaceChunks(cvId: number | string, chunks: EmbeddedChunk[]) {
+    const { error: deleteError } = await adminSupabase
+      .from("cv_chunks")
+      .delete()
+      .eq("cv_id", cvId);
+    if (deleteError) throw deleteError;
+
+    if (!chunks.length) return;
+
+    const { error } = await adminSupabase.from("cv_chunks").insert(
+      chunks.map((chunk) => ({
+        cv_id: cvId,
+        section: chunk.section,
+        chunk_index: chunk.chunk_index,
+        content: chunk.content,
+        // pgvector accepts the '[1,2,3]' text form
+        embedding: JSON.stringify(chunk.embedding),
+      }))
+    );
+    if (error) throw error;
+  }
+
+  async hasChunks(cvId: number | string) {
+    const { count, error } = await adminSupabase
+      .from("cv_chunks")
+      .select("id", { count: "exact", head: true })
+      .eq("cv_id", cvId);
+    if (error) throw error;
+    return (count ?? 0) > 0;
+  }
+
+  async search(cvId: number | string, embedding: number[], topK: number) {
+    const { data, error } = await adminSupabase.rpc("match_cv_chunks", {
+      p_cv_id: cvId,
+      query_embedding: JSON.stringify(embedding),
+      match_count: topK,
+    });
+    if (error) throw error;
+    return (data ?? []) as ScoredChunk[];
+  }
+}
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// In-process fallback for tests and local development without pgvector
+export class MemoryVectorStore implements VectorStore {
+  private chunks = new Map<string, EmbeddedChunk[]>();
+
+  async replaceChunks(cvId: number | string, chunks: EmbeddedChunk[]) {
+    this.chunks.set(String(cvId), chunks);
+  }
+
+  async hasChunks(cvId: number | string) {
+    return (this.chunks.get(String(cvId))?.length ?? 0) > 0;
+  }
+
+  async search(cvId: number | string, embedding: number[], topK: number) {
+    return (this.chunks.get(String(cvId)) ?? [])
+      .map(({ embedding: stored, ...chunk }) => ({
+        ...chunk,
+        score: cosine(stored, embedding),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
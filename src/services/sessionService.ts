@@ -0,0 +1,81 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import { CookieOptions, Request, Response } from "express";
+import { Session } from "@supabase/supabase-js";
+
+export const ACCESS_TOKEN_COOKIE = "sb-access-token";
+export const REFRESH_TOKEN_COOKIE = "sb-refresh-token";
+export const CSRF_COOKIE = "csrf-token";
+export const CSRF_HEADER = "X-CSRF-Token";
+
+const REFRESH_TOKEN_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// `none` is needed when the frontend lives on another site than the API
+const sameSite = (process.env.COOKIE_SAMESITE ?? "lax") as CookieOptions["sameSite"];
+
+export const cookieOptions = (maxAge: number): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production" || sameSite === "none",
+  sameSite,
+  path: "/",
+  maxAge,
+});
+
+// Stores the session in httpOnly cookies plus a CSRF token (double submit:
+// readable cookie + echoed header). Returns the CSRF token so clients on
+// another site, which can't read the cookie, get it from the response body.
+export const setSessionCookies = (res: Response, session: Session): string => {
+  const csrfToken = randomBytes(24).toString("base64url");
+
+  res.cookie(
+    ACCESS_TOKEN_COOKIE,
+    session.access_token,
+    cookieOptions(session.expires_in * 1000)
+  );
+  res.cookie(
+    REFRESH_TOKEN_COOKIE,
+    session.refresh_token,
+    cookieOptions(REFRESH_TOKEN_MAX_AGE_MS)
+  );
+  res.cookie(CSRF_COOKIE, csrfToken, {
+    ...cookieOptions(REFRESH_TOKEN_MAX_AGE_MS),
+    httpOnly: false,
+  });
+  return csrfToken;
+};
+
+export const clearSessionCookies = (res: Response) => {
+  for (const name of [ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, CSRF_COOKIE]) {
+    const { maxAge: _maxAge, ...options } = cookieOptions(0);
+    res.clearCookie(name, options);
+  }
+};
+
+export type TokenSource = "bearer" | "cookie";
+
+// Bearer header first, then the session cookie
+export const accessTokenFrom = (
+  req: Request
+): { token: string; source: TokenSource } | null => {
+  const header = req.headers["authorization"];
+  if (header?.startsWith("Bearer ")) {
+    return { token: header.slice("Bearer ".length), source: "bearer" };
+  }
+  const cookie = req.cookies?.[ACCESS_TOKEN_COOKIE];
+  return cookie ? { token: cookie, source: "cookie" } : null;
+};
+
+const SAFE_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+// Cookie-authenticated writes must echo the CSRF cookie in a header, which a
+// cross-site form or script can't do
+export const passesCsrfCheck = (req: Request): boolean => {
+  if (SAFE_METHODS.includes(req.method)) return true;
+
+  const cookie = req.cookies?.[CSRF_COOKIE];
+  const header = req.header(CSRF_HEADER);
+  if (typeof cookie !== "string" || !cookie || !header) return false;
+
+  const expected = Buffer.from(cookie);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,82 @@
+import { BuilderSettings, pickSettingsColumns } from "./builderSettingsService.js";
+
+export const EXPORT_FORMAT = "portfolio-builder-settings";
+export const EXPORT_VERSION = 2;
+
+export interface SettingsExport {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exported_at: string;
+  settings: Record<string, unknown>;
+  // The avatar stays in the original account's public bucket. Importing
+  // reuses the URL, but only into that same account; it is never copied
+  avatar: { url: string } | null;
+}
+
+export class UnsupportedExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedExportError";
+  }
+}
+
+type ExportDocument = Record<string, unknown>;
+
+// Database columns the builder UI used to include in its downloads
+const ROW_FIELDS = ["id", "user_id", "version", "created_at", "updated_at"];
+
+// Each step upgrades a document from version N to N + 1
+const MIGRATIONS: Record<number, (doc: ExportDocument) => ExportDocument> = {
+  // v1: the bare GET /api/builder/settings response, saved as-is
+  1: (doc) => {
+    const settings = Object.fromEntries(
+      Object.entries(doc).filter(([key]) => !ROW_FIELDS.includes(key))
+    );
+    return {
+      format: EXPORT_FORMAT,
+      version: 2,
+      exported_at: doc.updated_at ?? null,
+      settings,
+      avatar: typeof settings.avatar_url === "string" ? { url: settings.avatar_url } : null,
+    };
+  },
+};
+
+export const buildSettingsExport = (settings: BuilderSettings): SettingsExport => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exported_at: new Date().toISOString(),
+  settings: pickSettingsColumns(settings),
+  avatar: settings.avatar_url ? { url: settings.avatar_url } : null,
+});
+
+// Brings any known export version up to EXPORT_VERSION. Documents without a
+// `format` marker are taken to be v1. The result still needs validating.
+export const migrateSettingsExport = (input: unknown): ExportDocument => {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    throw new UnsupportedExportError("Export must be a JSON object");
+  }
+
+  let doc = input as ExportDocument;
+  if (doc.format === undefined) {
+    doc = { ...doc, version: 1 };
+  } else if (doc.format !== EXPORT_FORMAT) {
+    throw new UnsupportedExportError(`Unknown export format "${String(doc.format)}"`);
+  }
+
+  if (typeof doc.version !== "number" || !Number.isInteger(doc.version) || doc.version < 1) {
+    throw new UnsupportedExportError("Export version is missing or invalid");
+  }
+  let version: number = doc.version;
+  if (version > EXPORT_VERSION) {
+    throw new UnsupportedExportError(
+      `Export version ${version} is newer than this server supports (${EXPORT_VERSION})`
+    );
+  }
+
+  while (version < EXPORT_VERSION) {
+    doc = MIGRATIONS[version](doc);
+    version = doc.version as number;
+  }
+  return doc;
+};
@@ -0,0 +1,126 @@
+import { BuilderSettings, DEFAULT_BUILDER_SETTINGS } from "./builderSettingsService.js";
+
+// The purely visual part of the settings; applying a preset leaves prompts,
+// socials, avatar and AI settings alone
+export const THEME_FIELDS = [
+  "primary_color",
+  "bg_type",
+  "bg_color",
+  "gradient_from",
+  "gradient_to",
+  "gradient_direction",
+  "input_color",
+  "border_color",
+  "social_btn_color",
+] as const;
+
+export type ThemeSettings = Pick<BuilderSettings, (typeof THEME_FIELDS)[number]>;
+
+export interface ThemePreset {
+  id: string;
+  name: string;
+  description: string;
+  settings: ThemeSettings;
+}
+
+const pickTheme = (settings: BuilderSettings): ThemeSettings =>
+  Object.fromEntries(
+    THEME_FIELDS.map((field) => [field, settings[field]])
+  ) as ThemeSettings;
+
+export const THEME_PRESETS: ThemePreset[] = [
+  {
+    id: "light",
+    name: "Light",
+    description: "White background with blue accents (the default)",
+    settings: pickTheme(DEFAULT_BUILDER_SETTINGS),
+  },
+  {
+    id: "dark",
+    name: "Dark",
+    description: "Near-black background with soft blue accents",
+    settings: {
+      primary_color: "#60a5fa",
+      bg_type: "solid",
+      bg_color: "#0f172a",
+      gradient_from: "#1e293b",
+      gradient_to: "#0f172a",
+      gradient_direction: "to bottom",
+      input_color: "#1e293b",
+      border_color: "#334155",
+      social_btn_color: "#60a5fa",
+    },
+  },
+  {
+    id: "midnight",
+    name: "Midnight",
+    description: "Deep indigo gradient for dark mode fans",
+    settings: {
+      primary_color: "#a78bfa",
+      bg_type: "gradient",
+      bg_color: "#1e1b4b",
+      gradient_from: "#1e1b4b",
+      gradient_to: "#312e81",
+      gradient_direction: "to bottom right",
+      input_color: "#272463",
+      border_color: "#4338ca",
+      social_btn_color: "#a78bfa",
+    },
+  },
+  {
+    id: "sunset",
+    name: "Sunset",
+    description: "Warm orange to pink gradient",
+    settings: {
+      primary_color: "#ea580c",
+      bg_type: "gradient",
+      bg_color: "#fff7ed",
+      gradient_from: "#fed7aa",
+      gradient_to: "#fbcfe8",
+      gradient_direction: "to bottom right",
+      input_color: "#ffffff",
+      border_color: "#fdba74",
+      social_btn_color: "#db2777",
+    },
+  },
+  {
+    id: "ocean",
+    name: "Ocean",
+    description: "Light cyan to blue gradient",
+    settings: {
+      primary_color: "#0284c7",
+      bg_type: "gradient",
+      bg_color: "#ecfeff",
+      gradient_from: "#cffafe",
+      gradient_to: "#bfdbfe",
+      gradient_direction: "to bottom",
+      input_color: "#ffffff",
+      border_color: "#7dd3fc",
+      social_btn_color: "#0369a1",
+    },
+  },
+  {
+    id: "forest",
+    name: "Forest",
+    description: "Soft green gradient with emerald accents",
+    settings: {
+      primary_color: "#059669",
+      bg_type: "gradient",
+      bg_color: "#f0fdf4",
+      gradient_from: "#dcfce7",
+      gradient_to: "#d1fae5",
+      gradient_direction: "to top",
+      input_color: "#ffffff",
+      border_color: "#86efac",
+      social_btn_color: "#047857",
+    },
+  },
+];
+
+export const findThemePreset = (id: string): ThemePreset | undefined =>
+  THEME_PRESETS.find((preset) => preset.id === id);
+
+export const applyThemePreset = (
+  settings: BuilderSettings,
+  preset: ThemePreset
+): BuilderSettings => ({ ...settings, ...preset.settings });
@@ -0,0 +1,14 @@
+import path from "path";
+
+// Storage-safe version of a user supplied file name: no directories, only
+// [A-Za-z0-9._-], bounded length, extension kept.
+export const sanitizeFileName = (name: string, fallback = "file"): string => {
+  const base = path.basename(name || "").normalize("NFKD");
+  const ext = path.extname(base).toLowerCase().replace(/[^a-z0-9.]/g, "");
+  const stem = path
+    .basename(base, path.extname(base))
+    .replace(/[^A-Za-z0-9._-]+/g, "-")
+    .replace(/^[-.]+|[-.]+$/g, "")
+    .slice(0, 80);
+  return `${stem || fallback}${ext.slice(0, 10)}`;
+};
@@ -0,0 +1,42 @@
+export const escapeHtml = (value: unknown): string =>
+  String(value ?? "").replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!
+  );
+
+export interface AuthPageOptions {
+  title: string;
+  heading: string;
+  // Plain text; escaped here, so provider / Supabase messages are safe to pass
+  message: string;
+  link?: { href: string; label: string };
+  tone?: "success" | "error";
+}
+
+// Shared shell for the confirmation / error pages the auth routes render
+// when a browser follows a link from an email
+export const renderAuthPage = ({
+  title,
+  heading,
+  message,
+  link,
+  tone = "success",
+}: AuthPageOptions): string => `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)}</title>
+    <style>
+      body { font-family: sans-serif; text-align: center; padding: 4rem; }
+      h1 { color: ${tone === "success" ? "#6d5bba" : "#c0392b"}; }
+      a { color: #6d5bba; text-decoration: none; }
+    </style>
+  </head>
+  <body>
+    <h1>${escapeHtml(heading)}</h1>
+    <p>${escapeHtml(message)}</p>
+    ${link ? `<p><a href="${escapeHtml(link.href)}">${escapeHtml(link.label)}</a></p>` : ""}
+  </body>
+</html>`;
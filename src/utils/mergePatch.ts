@@ -0,0 +1,35 @@
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+const isObject = (value: unknown): value is Record<string, Json> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// RFC 7396 JSON Merge Patch: objects merge recursively, null deletes a key,
+// everything else (arrays included) replaces.
+export const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+  if (!isObject(patch)) return patch;
+
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key];
+    else result[key] = applyMergePatch(result[key], value);
+  }
+  return result;
+};
+
+// Merge-patches a list by viewing it as an object keyed by `keyOf`. A patch
+// that is already an array replaces the list outright. Order is preserved;
+// new keys are appended.
+export const mergePatchList = <T>(
+  list: T[],
+  patch: unknown,
+  keyOf: (item: T, index: number) => string
+): T[] => {
+  if (!isObject(patch)) return patch as T[];
+
+  const keyed = new Map(list.map((item, i) => [keyOf(item, i), item as unknown]));
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) keyed.delete(key);
+    else keyed.set(key, applyMergePatch(keyed.get(key), value));
+  }
+  return [...keyed.values()] as T[];
+};
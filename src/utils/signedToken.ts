@@ -0,0 +1,45 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+const sign = (data: string, secret: string) =>
+  createHmac("sha256", secret).update(data).digest("base64url");
+
+// Compact HMAC-signed token: base64url(JSON payload) + "." + signature.
+// `exp` (seconds since epoch) is added from `ttlSeconds`.
+export const signToken = (
+  payload: Record<string, unknown>,
+  secret: string,
+  ttlSeconds: number
+): string => {
+  const body = Buffer.from(
+    JSON.stringify({
+      ...payload,
+      exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+    })
+  ).toString("base64url");
+  return `${body}.${sign(body, secret)}`;
+};
+
+// The payload, or null when the token is malformed, tampered with or expired
+export const verifyToken = <T extends Record<string, unknown>>(
+  token: string,
+  secret: string
+): (T & { exp: number }) | null => {
+  const [body, signature, ...rest] = token.split(".");
+  if (!body || !signature || rest.length) return null;
+
+  const expected = Buffer.from(sign(body, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+    if (typeof payload?.exp !== "number" || payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+};
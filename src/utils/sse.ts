@@ -0,0 +1,32 @@
+import { Request, Response } from "express";
+
+// Clients opt into streaming by asking for text/event-stream; anything else
+// (including */*) keeps the regular JSON response.
+export const wantsEventStream = (req: Request): boolean =>
+  req.accepts(["application/json", "text/event-stream"]) === "text/event-stream";
+
+export const openEventStream = (res: Response) => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Stop proxies (nginx, Vercel edge) from buffering the stream
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+};
+
+export const sendEvent = (res: Response, event: string, data: unknown) => {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+};
+
+// Returns a signal that fires when the client goes away before we finished
+// writing, so upstream work can be cancelled.
+export const abortOnDisconnect = (res: Response): AbortSignal => {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller.signal;
+};
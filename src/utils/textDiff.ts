@@ -0,0 +1,60 @@
+export type DiffOp = "equal" | "added" | "removed";
+
+export interface DiffHunk {
+  op: DiffOp;
+  lines: string[];
+}
+
+// O(n*m) LCS is fine for CV-sized inputs; beyond this we refuse rather than
+// allocate a huge table.
+export const MAX_DIFF_LINES = 3000;
+
+// Line-based diff from `before` to `after`, consecutive lines with the same
+// op merged into one hunk.
+export const diffLines = (before: string, after: string): DiffHunk[] => {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    throw new Error(`Texts longer than ${MAX_DIFF_LINES} lines cannot be diffed`);
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Uint16Array(b.length + 1)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  const push = (op: DiffOp, line: string) => {
+    const last = hunks[hunks.length - 1];
+    if (last?.op === op) last.lines.push(line);
+    else hunks.push({ op, lines: [line] });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  return hunks;
+};
+
+export const diffStats = (hunks: DiffHunk[]) => ({
+  added: hunks.filter((h) => h.op === "added").reduce((n, h) => n + h.lines.length, 0),
+  removed: hunks.filter((h) => h.op === "removed").reduce((n, h) => n + h.lines.length, 0),
+});
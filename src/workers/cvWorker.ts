@@ -0,0 +1,22 @@
+import dotenv from "dotenv";
+import { drainCvJobs } from "../services/cv/pipeline.js";
+
+dotenv.config();
+
+// Local stand-in for the Vercel cron: drains the CV job queue, then polls.
+// `--once` drains what is queued and exits (handy in tests and scripts).
+const POLL_INTERVAL_MS = Number(process.env.CV_WORKER_POLL_MS ?? 5000);
+const once = process.argv.includes("--once");
+
+const run = async () => {
+  do {
+    const processed = await drainCvJobs();
+    if (processed) console.log(`Processed ${processed} CV job(s)`);
+    if (!once) await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+  } while (!once);
+};
+
+run().catch((err) => {
+  console.error("CV worker crashed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,5 @@
+-- Per-owner model selection for the portfolio assistant
+alter table builder_settings
+  add column if not exists ai_model text,
+  add column if not exists ai_temperature real
+    check (ai_temperature is null or (ai_temperature >= 0 and ai_temperature <= 2));
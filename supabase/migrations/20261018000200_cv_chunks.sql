@@ -0,0 +1,34 @@
+-- Section-aware CV chunks with embeddings for retrieval
+create extension if not exists vector;
+
+create table if not exists cv_chunks (
+  id bigint generated always as identity primary key,
+  cv_id bigint not null references cv_uploads(id) on delete cascade,
+  section text not null,
+  chunk_index integer not null,
+  content text not null,
+  embedding vector(768) not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists cv_chunks_cv_id_idx on cv_chunks (cv_id);
+
+create or replace function match_cv_chunks(
+  p_cv_id bigint,
+  query_embedding vector(768),
+  match_count integer default 5
+)
+returns table (section text, chunk_index integer, content text, score double precision)
+language sql stable
+as $$
+  select section, chunk_index, content, 1 - (embedding <=> query_embedding) as score
+  from cv_chunks
+  where cv_id = p_cv_id
+  order by embedding <=> query_embedding
+  limit match_count;
+$$;
+
+-- Only the API (service role) reads and writes chunks
+alter table cv_chunks enable row level security;
+revoke all on cv_chunks from anon, authenticated;
+revoke execute on function match_cv_chunks(bigint, vector, integer) from public, anon, authenticated;
@@ -0,0 +1,30 @@
+-- Server-side visitor conversations for the public portfolio chat
+create table if not exists chat_conversations (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references auth.users(id) on delete cascade,
+  cv_id bigint references cv_uploads(id) on delete set null,
+  summary text,
+  summarized_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_conversations_owner_idx
+  on chat_conversations (owner_id, updated_at desc);
+
+create table if not exists chat_messages (
+  id bigint generated always as identity primary key,
+  conversation_id uuid not null references chat_conversations(id) on delete cascade,
+  role text not null check (role in ('visitor', 'assistant')),
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_messages_conversation_idx
+  on chat_messages (conversation_id, id);
+
+-- Visitors reach their conversation only through the API (service role),
+-- never with the public anon key
+alter table chat_conversations enable row level security;
+alter table chat_messages enable row level security;
+revoke all on chat_conversations, chat_messages from anon, authenticated;
@@ -0,0 +1,29 @@
+-- Per-owner limits for the public portfolio chat (NULL = platform default)
+alter table builder_settings
+  add column if not exists chat_rate_limit_per_ip integer check (chat_rate_limit_per_ip >= 0),
+  add column if not exists chat_rate_limit_per_portfolio integer check (chat_rate_limit_per_portfolio >= 0),
+  add column if not exists daily_token_budget integer check (daily_token_budget >= 0);
+
+-- Fixed-window counters backing SupabaseRateLimitStore
+create table if not exists rate_limit_counters (
+  key text primary key,
+  count bigint not null default 0,
+  reset_at timestamptz not null
+);
+
+create or replace function rate_limit_increment(p_key text, p_amount bigint, p_window_ms bigint)
+returns table (count bigint, reset_at timestamptz)
+language sql volatile
+as $$
+  insert into rate_limit_counters as c (key, count, reset_at)
+  values (p_key, p_amount, now() + p_window_ms * interval '1 millisecond')
+  on conflict (key) do update set
+    count = case when c.reset_at <= now() then excluded.count else c.count + excluded.count end,
+    reset_at = case when c.reset_at <= now() then excluded.reset_at else c.reset_at end
+  returning c.count, c.reset_at;
+$$;
+
+-- Clients must not be able to read or reset their own counters
+alter table rate_limit_counters enable row level security;
+revoke all on rate_limit_counters from anon, authenticated;
+revoke execute on function rate_limit_increment(text, bigint, bigint) from public, anon, authenticated;
@@ -0,0 +1,3 @@
+-- Structured ParsedCV stored next to the extracted markdown
+alter table cv_uploads
+  add column if not exists parsed_cv jsonb;
@@ -0,0 +1,8 @@
+-- Private bucket for original CV uploads, one folder per user id
+insert into storage.buckets (id, name, public)
+values ('cvs', 'cvs', false)
+on conflict (id) do nothing;
+
+-- Why a conversion failed, recorded on the exact upload row
+alter table cv_uploads
+  add column if not exists error text;
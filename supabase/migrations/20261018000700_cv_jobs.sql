@@ -0,0 +1,73 @@
+-- Background CV processing: extract -> parse -> embed -> summary
+alter table cv_uploads
+  add column if not exists stage text,
+  add column if not exists progress integer not null default 0,
+  add column if not exists summary text,
+  add column if not exists updated_at timestamptz not null default now();
+
+create table if not exists cv_jobs (
+  id bigint generated always as identity primary key,
+  cv_id bigint not null references cv_uploads(id) on delete cascade,
+  stage text not null default 'extract'
+    check (stage in ('extract', 'parse', 'embed', 'summary')),
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'failed', 'done')),
+  attempts integer not null default 0,
+  last_error text,
+  locked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists cv_jobs_pending_idx on cv_jobs (created_at)
+  where status in ('queued', 'running');
+
+-- Claims queued jobs, plus running ones whose worker died (stale lock).
+-- A job that has already taken down its worker `p_max_attempts` times
+-- (e.g. OCR on a huge scan) is failed instead of being retried forever.
+create or replace function claim_cv_jobs(
+  p_limit integer,
+  p_lock_timeout_seconds integer default 300,
+  p_max_attempts integer default 3
+)
+returns setof cv_jobs
+language plpgsql volatile
+as $$
+begin
+  with given_up as (
+    update cv_jobs
+    set status = 'failed',
+        locked_at = null,
+        last_error = 'Processing did not finish after ' || attempts || ' attempts',
+        updated_at = now()
+    where status = 'running'
+      and locked_at < now() - make_interval(secs => p_lock_timeout_seconds)
+      and attempts >= p_max_attempts
+    returning cv_id, last_error
+  )
+  update cv_uploads u
+  set status = 'failed', error = g.last_error, updated_at = now()
+  from given_up g
+  where u.id = g.cv_id;
+
+  return query
+  update cv_jobs
+  set status = 'running', locked_at = now(), attempts = attempts + 1, updated_at = now()
+  where id in (
+    select id from cv_jobs
+    where status = 'queued'
+       or (status = 'running'
+           and locked_at < now() - make_interval(secs => p_lock_timeout_seconds)
+           and attempts < p_max_attempts)
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning *;
+end;
+$$;
+
+-- The queue is driven by the worker and the API (service role) only
+alter table cv_jobs enable row level security;
+revoke all on cv_jobs from anon, authenticated;
+revoke execute on function claim_cv_jobs(integer, integer, integer) from public, anon, authenticated;
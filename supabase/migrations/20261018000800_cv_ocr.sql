@@ -0,0 +1,3 @@
+-- Per-page OCR details for scanned CVs (see OcrReport)
+alter table cv_uploads
+  add column if not exists ocr_report jsonb;
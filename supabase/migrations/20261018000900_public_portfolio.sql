@@ -0,0 +1,18 @@
+-- Owner opt-in for showing their email on the public portfolio, and change
+-- tracking for Last-Modified
+alter table builder_settings
+  add column if not exists show_email boolean not null default false,
+  add column if not exists updated_at timestamptz not null default now();
+
+create or replace function touch_updated_at()
+returns trigger language plpgsql as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists builder_settings_touch on builder_settings;
+create trigger builder_settings_touch
+  before update on builder_settings
+  for each row execute function touch_updated_at();
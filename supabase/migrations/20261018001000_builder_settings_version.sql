@@ -0,0 +1,17 @@
+-- Optimistic concurrency for builder settings: every update bumps `version`,
+-- which the API exposes as the ETag and checks against If-Match
+alter table builder_settings
+  add column if not exists version integer not null default 1;
+
+create or replace function bump_settings_version()
+returns trigger language plpgsql as $$
+begin
+  new.version = old.version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists builder_settings_version on builder_settings;
+create trigger builder_settings_version
+  before update on builder_settings
+  for each row execute function bump_settings_version();
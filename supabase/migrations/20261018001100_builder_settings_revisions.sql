@@ -0,0 +1,19 @@
+-- Settings history for undo: one row per save that changed something, with
+-- the full snapshot and a field-level diff against the previous state
+create table if not exists builder_settings_revisions (
+  id bigserial primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  version integer not null,
+  settings jsonb not null,
+  diff jsonb not null default '[]'::jsonb,
+  created_by uuid references auth.users(id) on delete set null,
+  restored_from bigint,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists builder_settings_revisions_user_idx
+  on builder_settings_revisions (user_id, id desc);
+
+-- Read and written through the API (service role) only
+alter table builder_settings_revisions enable row level security;
+revoke all on builder_settings_revisions from anon, authenticated;
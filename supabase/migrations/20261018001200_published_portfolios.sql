@@ -0,0 +1,52 @@
+-- Draft vs published: builder_settings and profiles.active_cv_id are the
+-- owner's draft; visitors only ever see the snapshot taken at publish time
+create table if not exists published_portfolios (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  settings jsonb,
+  cv_id bigint references cv_uploads(id) on delete set null,
+  published boolean not null default true,
+  published_at timestamptz not null default now(),
+  unpublished_at timestamptz
+);
+
+-- Copies the draft settings and CV choice in one statement so visitors never
+-- see half a publish. With no active CV the latest processed upload is
+-- pinned, so later uploads don't go live until the next publish.
+create or replace function publish_portfolio(p_user_id uuid)
+returns setof published_portfolios
+language sql volatile
+as $$
+  insert into published_portfolios as pp
+    (user_id, settings, cv_id, published, published_at, unpublished_at)
+  select
+    p.id,
+    (select to_jsonb(s) - 'id' - 'user_id' from builder_settings s where s.user_id = p.id),
+    coalesce(
+      p.active_cv_id,
+      (select c.id from cv_uploads c
+        where c.user_id = p.id and c.status = 'processed'
+        order by c.created_at desc
+        limit 1)
+    ),
+    true,
+    now(),
+    null
+  from profiles p
+  where p.id = p_user_id
+  on conflict (user_id) do update
+    set settings = excluded.settings,
+        cv_id = excluded.cv_id,
+        published = true,
+        published_at = excluded.published_at,
+        unpublished_at = null
+  returning pp.*;
+$$;
+
+-- Visitors get the snapshot through the API (service role), which also
+-- does the publishing
+alter table published_portfolios enable row level security;
+revoke all on published_portfolios from anon, authenticated;
+revoke execute on function publish_portfolio(uuid) from public, anon, authenticated;
+
+-- Portfolios were live on every save until now; keep them live
+select publish_portfolio(id) from profiles;
@@ -0,0 +1,4 @@
+-- Square WebP avatar renditions keyed by size; avatar_url keeps pointing at
+-- the 256px one for older clients
+alter table builder_settings
+  add column if not exists avatar_variants jsonb;
@@ -0,0 +1,24 @@
+-- Custom domains: a portfolio is served on a hostname once its owner proves
+-- control of it with a DNS TXT record
+create table if not exists custom_domains (
+  id bigserial primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  hostname text not null check (hostname = lower(hostname)),
+  verification_token text not null,
+  verified_at timestamptz,
+  last_checked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists custom_domains_user_idx on custom_domains (user_id);
+create unique index if not exists custom_domains_user_hostname_key
+  on custom_domains (user_id, hostname);
+-- Only a verified claim is exclusive. Anyone may register a hostname, so an
+-- unverified row must not lock the real owner out.
+create unique index if not exists custom_domains_verified_hostname_key
+  on custom_domains (hostname)
+  where verified_at is not null;
+
+-- Managed through the API (service role) only
+alter table custom_domains enable row level security;
+revoke all on custom_domains from anon, authenticated;
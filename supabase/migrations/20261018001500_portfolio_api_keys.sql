@@ -0,0 +1,19 @@
+-- Publishable keys for embedding the portfolio chat on other sites. Only a
+-- hash of the key is stored; the key is shown once at creation.
+create table if not exists portfolio_api_keys (
+  id bigserial primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  key_prefix text not null,
+  key_hash text not null unique,
+  allowed_origins text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz,
+  revoked_at timestamptz
+);
+
+create index if not exists portfolio_api_keys_user_idx on portfolio_api_keys (user_id);
+
+-- Key hashes and allowed origins are only read by the API (service role)
+alter table portfolio_api_keys enable row level security;
+revoke all on portfolio_api_keys from anon, authenticated;
@@ -0,0 +1,54 @@
+-- Roles and suspension live on the profile; an `app_metadata.role` claim in
+-- the JWT takes precedence when present
+alter table profiles
+  add column if not exists role text not null default 'owner'
+    check (role in ('owner', 'admin')),
+  add column if not exists suspended_at timestamptz,
+  add column if not exists suspended_reason text;
+
+-- Append-only record of admin (and account-level) actions
+create table if not exists audit_log (
+  id bigserial primary key,
+  actor_id uuid,
+  action text not null,
+  target_user_id uuid,
+  details jsonb not null default '{}'::jsonb,
+  ip text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_target_idx on audit_log (target_user_id, created_at desc);
+create index if not exists audit_log_actor_idx on audit_log (actor_id, created_at desc);
+
+-- Written and read through the API (service role) only, so clients can't
+-- edit or remove entries
+alter table audit_log enable row level security;
+revoke all on audit_log from anon, authenticated;
+
+-- Clients may still update their own profile row with the anon key; role and
+-- suspension are only changed by the API (service role). A trigger, because
+-- Supabase's table-level UPDATE grant outranks column revokes.
+create or replace function guard_profile_privileged_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user in ('anon', 'authenticated') and (
+    (tg_op = 'INSERT' and (new.role <> 'owner' or new.suspended_at is not null))
+    or (tg_op = 'UPDATE' and (
+      new.role is distinct from old.role
+      or new.suspended_at is distinct from old.suspended_at
+      or new.suspended_reason is distinct from old.suspended_reason
+    ))
+  ) then
+    raise exception 'role and suspension can only be changed by an admin'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_guard_privileged_columns on profiles;
+create trigger profiles_guard_privileged_columns
+  before insert or update on profiles
+  for each row execute function guard_profile_privileged_columns();
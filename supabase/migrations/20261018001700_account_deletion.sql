@@ -0,0 +1,7 @@
+-- Self-service account deletion waits out a grace period during which the
+-- owner can cancel; the portfolio is hidden meanwhile
+alter table profiles
+  add column if not exists deletion_scheduled_at timestamptz;
+
+create index if not exists profiles_deletion_scheduled_idx on profiles (deletion_scheduled_at)
+  where deletion_scheduled_at is not null;
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { argOf, FakeQuery, FakeResponder } from "./fakeSupabase.js";
+
+const db = vi.hoisted(() => ({
+  respond: (() => undefined) as FakeResponder,
+  queries: [] as FakeQuery[],
+}));
+
+vi.mock("../src/config/supabaseClient.js", async () => {
+  const { createFakeSupabase } = await import("./fakeSupabase.js");
+  const fake = createFakeSupabase((query) => db.respond(query));
+  db.queries = fake.queries;
+  return { adminSupabase: fake.client };
+});
+
+const { deleteAccount, purgeScheduledDeletions } = await import(
+  "../src/services/accountService.js"
+);
+
+const USER_ID = "0b6f1c9e-7d1a-4c53-9a57-0c2b1a9f4e21";
+
+// The columns each table has in supabase/migrations, as far as filters go
+const COLUMNS: Record<string, string[]> = {
+  profiles: ["id", "user_name", "deletion_scheduled_at"],
+  cv_uploads: ["id", "user_id", "stored_path"],
+  cv_jobs: ["id", "cv_id"],
+  cv_chunks: ["id", "cv_id"],
+  chat_conversations: ["id", "owner_id", "cv_id"],
+  chat_messages: ["id", "conversation_id"],
+  builder_settings: ["id", "user_id"],
+  builder_settings_revisions: ["id", "user_id"],
+  published_portfolios: ["user_id", "cv_id"],
+  custom_domains: ["id", "user_id", "hostname", "verified_at"],
+  portfolio_api_keys: ["id", "user_id"],
+  rate_limit_counters: ["key"],
+};
+
+const FILTERS = ["eq", "neq", "in", "is", "ilike", "lte", "gte", "not"];
+
+// Postgres' answer to a filter on a column the table doesn't have
+const missingColumn = ({ table, calls }: FakeQuery) => {
+  const columns = COLUMNS[table];
+  if (!columns) return null;
+  const column = calls
+    .filter(([method]) => FILTERS.includes(method))
+    .map(([, name]) => name as string)
+    .find((name) => !columns.includes(name));
+  return column
+    ? { code: "42703", message: `column ${table}.${column} does not exist` }
+    : null;
+};
+
+const respondWith = (extra: FakeResponder = () => undefined): FakeResponder => (query) => {
+  if (!query.table.startsWith("storage:") && query.table !== "auth" && !COLUMNS[query.table]) {
+    return { error: { code: "42P01", message: `relation ${query.table} does not exist` } };
+  }
+  const error = missingColumn(query);
+  if (error) return { error };
+  const answer = extra(query);
+  if (answer) return answer;
+  if (query.table === "profiles" && argOf(query, "select") === "user_name") {
+    return { data: { user_name: "Ada" } };
+  }
+  if (query.table === "cv_uploads" && argOf(query, "select")) {
+    return { data: [{ stored_path: `${USER_ID}/cv.pdf` }] };
+  }
+  if (query.table.startsWith("storage:") && query.calls[0][0] === "list") {
+    return { data: [] };
+  }
+};
+
+const deletedTables = () =>
+  db.queries
+    .filter((query) => query.calls.some(([method]) => method === "delete"))
+    .map((query) => query.table);
+
+beforeEach(() => {
+  db.queries.length = 0;
+  db.respond = respondWith();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("deleteAccount", () => {
+  it("removes the user's rows, files, counters and auth user", async () => {
+    await deleteAccount(USER_ID);
+
+    expect(deletedTables()).toEqual([
+      "chat_conversations",
+      "cv_uploads",
+      "builder_settings_revisions",
+      "published_portfolios",
+      "builder_settings",
+      "custom_domains",
+      "portfolio_api_keys",
+      "rate_limit_counters",
+      "profiles",
+    ]);
+    const removed = db.queries.find(
+      (query) => query.table === "storage:cvs" && argOf(query, "remove")
+    );
+    expect(argOf(removed!, "remove")).toEqual([`${USER_ID}/cv.pdf`]);
+    expect(argOf(db.queries.at(-1)!, "deleteUser")).toBe(USER_ID);
+  });
+
+  it("leaves CV jobs and chunks to cascade from cv_uploads", async () => {
+    await deleteAccount(USER_ID);
+
+    expect(deletedTables()).not.toContain("cv_jobs");
+    expect(deletedTables()).not.toContain("cv_chunks");
+  });
+
+  it("stops before the auth user when a row delete fails", async () => {
+    db.respond = respondWith((query) =>
+      query.table === "custom_domains" ? { error: { message: "boom" } } : undefined
+    );
+
+    await expect(deleteAccount(USER_ID)).rejects.toEqual({ message: "boom" });
+    expect(db.queries.some((query) => query.table === "auth")).toBe(false);
+  });
+});
+
+describe("purgeScheduledDeletions", () => {
+  const due = (query: FakeQuery) =>
+    query.table === "profiles" && argOf(query, "select") === "id"
+      ? { data: [{ id: USER_ID }] }
+      : undefined;
+
+  it("deletes accounts whose grace period has passed, oldest first", async () => {
+    db.respond = respondWith(due);
+
+    const result = await purgeScheduledDeletions({ deadline: Date.now() + 60_000 });
+
+    expect(result).toEqual({ deleted: [USER_ID], failed: [] });
+    const lookup = db.queries.find((query) => argOf(query, "select") === "id")!;
+    expect(argOf(lookup, "order")).toBe("deletion_scheduled_at");
+  });
+
+  it("postpones an account that fails to delete", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    db.respond = respondWith((query) =>
+      due(query) ??
+      (query.table === "auth" ? { error: { message: "auth down", status: 500 } } : undefined)
+    );
+
+    const result = await purgeScheduledDeletions({ deadline: Date.now() + 60_000 });
+
+    expect(result).toEqual({ deleted: [], failed: [USER_ID] });
+    const postponed = db.queries.find(
+      (query) =>
+        query.table === "profiles" &&
+        (argOf(query, "update") as Record<string, unknown> | undefined)?.deletion_scheduled_at
+    );
+    expect(postponed).toBeDefined();
+  });
+});
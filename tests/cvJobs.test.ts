@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { argOf, FakeQuery, FakeResponder } from "./fakeSupabase.js";
+
+const db = vi.hoisted(() => ({
+  respond: (() => undefined) as FakeResponder,
+  queries: [] as FakeQuery[],
+}));
+
+vi.mock("../src/config/supabaseClient.js", async () => {
+  const { createFakeSupabase } = await import("./fakeSupabase.js");
+  const fake = createFakeSupabase((query) => db.respond(query));
+  db.queries = fake.queries;
+  return { adminSupabase: fake.client };
+});
+
+const { MemoryCvJobQueue, setCvJobQueue } = await import("../src/services/cv/jobQueue.js");
+const { drainCvJobs, retryCvProcessing } = await import("../src/services/cv/pipeline.js");
+const { FakeProvider, setLLMProvider } = await import("../src/services/llm/index.js");
+const { MemoryVectorStore, setVectorStore } = await import("../src/services/retrieval/index.js");
+
+const CV_ROW = {
+  id: 7,
+  user_id: "owner-1",
+  stored_path: null,
+  mimetype: "application/pdf",
+  original_name: "cv.pdf",
+  extracted_text: "# Ada Lovelace\n\n## Skills\n\nMathematics",
+};
+
+// cv_uploads patches written by the pipeline, in order
+const cvUpdates = () =>
+  db.queries
+    .filter((query) => query.table === "cv_uploads" && argOf(query, "update"))
+    .map((query) => argOf(query, "update") as Record<string, unknown>);
+
+let queue: InstanceType<typeof MemoryCvJobQueue>;
+
+beforeEach(() => {
+  queue = new MemoryCvJobQueue();
+  setCvJobQueue(queue);
+  setLLMProvider(new FakeProvider());
+  setVectorStore(new MemoryVectorStore());
+  db.queries.length = 0;
+  db.respond = ({ table, calls }) => {
+    if (table === "cv_uploads" && calls[0][0] === "select") {
+      return { data: { ...CV_ROW, status: "failed", stage: "extract" } };
+    }
+  };
+  vi.spyOn(console, "error").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  setCvJobQueue(null);
+  setLLMProvider(null);
+  setVectorStore(null);
+  vi.restoreAllMocks();
+});
+
+describe("MemoryCvJobQueue", () => {
+  it("claims each queued job once, up to the limit", async () => {
+    await queue.enqueue(1);
+    await queue.enqueue(2);
+    await queue.enqueue(3);
+
+    const first = await queue.claim(2);
+    const second = await queue.claim(2);
+
+    expect(first.map((job) => job.cv_id)).toEqual([1, 2]);
+    expect(second.map((job) => job.cv_id)).toEqual([3]);
+    expect(first.every((job) => job.status === "running" && job.attempts === 1)).toBe(true);
+    expect(await queue.claim(2)).toEqual([]);
+  });
+});
+
+describe("drainCvJobs", () => {
+  it("runs a job from its stage to the end and completes it", async () => {
+    const job = await queue.enqueue(CV_ROW.id, "embed");
+
+    expect(await drainCvJobs()).toBe(1);
+    expect(queue.jobs[0]).toMatchObject({ id: job.id, status: "done", stage: "summary" });
+    expect(cvUpdates().at(-1)).toMatchObject({ status: "processed", progress: 100 });
+  });
+
+  it("fails the job at the stage that threw", async () => {
+    await queue.enqueue(CV_ROW.id);
+
+    await drainCvJobs();
+
+    expect(queue.jobs[0]).toMatchObject({
+      status: "failed",
+      stage: "extract",
+      attempts: 1,
+      last_error: "Upload has no stored file",
+    });
+    expect(cvUpdates()).toContainEqual(
+      expect.objectContaining({ status: "failed", error: "Upload has no stored file" })
+    );
+  });
+
+  it("stops at maxJobs", async () => {
+    await queue.enqueue(CV_ROW.id, "summary");
+    await queue.enqueue(CV_ROW.id, "summary");
+
+    expect(await drainCvJobs({ maxJobs: 1 })).toBe(1);
+    expect(queue.jobs.map((job) => job.status)).toEqual(["done", "queued"]);
+  });
+});
+
+describe("retryCvProcessing", () => {
+  it("re-queues the failed job at its stage with a fresh attempt count", async () => {
+    await queue.enqueue(CV_ROW.id);
+    await drainCvJobs();
+
+    const job = await retryCvProcessing(CV_ROW.id);
+
+    expect(job).toMatchObject({ status: "queued", stage: "extract", attempts: 0 });
+    expect(queue.jobs).toHaveLength(1);
+    expect(cvUpdates().at(-1)).toMatchObject({ status: "queued", error: null });
+    expect((await queue.claim(1))[0].attempts).toBe(1);
+  });
+
+  it("creates a job for CVs that never had one", async () => {
+    db.respond = ({ table, calls }) => {
+      if (table === "cv_uploads" && calls[0][0] === "select") {
+        return { data: { status: "failed", stage: "parse" } };
+      }
+    };
+
+    const job = await retryCvProcessing(CV_ROW.id);
+
+    expect(job).toMatchObject({ cv_id: CV_ROW.id, stage: "parse", status: "queued" });
+  });
+
+  it("leaves CVs that haven't failed alone", async () => {
+    db.respond = () => ({ data: { status: "processed", stage: null } });
+
+    expect(await retryCvProcessing(CV_ROW.id)).toBeNull();
+    expect(queue.jobs).toEqual([]);
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { argOf, FakeQuery, FakeResponder } from "./fakeSupabase.js";
+
+const db = vi.hoisted(() => ({
+  respond: (() => undefined) as FakeResponder,
+  queries: [] as FakeQuery[],
+}));
+
+vi.mock("../src/config/supabaseClient.js", async () => {
+  const { createFakeSupabase } = await import("./fakeSupabase.js");
+  const fake = createFakeSupabase((query) => db.respond(query));
+  db.queries = fake.queries;
+  return { adminSupabase: fake.client };
+});
+
+const {
+  challengeRecord,
+  DomainTakenError,
+  normalizeHostname,
+  setDnsResolver,
+  verifyDomain,
+} = await import("../src/services/domainService.js");
+type CustomDomain = import("../src/services/domainService.js").CustomDomain;
+
+const DOMAIN: CustomDomain = {
+  id: 3,
+  user_id: "owner-1",
+  hostname: "ada.example.com",
+  verification_token: "abc123",
+  verified_at: null,
+  last_checked_at: null,
+  created_at: "2026-10-01T00:00:00Z",
+};
+
+const lookups: string[] = [];
+const resolveWith = (records: string[][] | Error) =>
+  setDnsResolver({
+    resolveTxt: async (hostname) => {
+      lookups.push(hostname);
+      if (records instanceof Error) throw records;
+      return records;
+    },
+  });
+
+const updatePatch = () =>
+  argOf(
+    db.queries.find((query) => argOf(query, "update"))!,
+    "update"
+  ) as Record<string, unknown>;
+
+const staleClaimsDeleted = () =>
+  db.queries.some(
+    (query) =>
+      query.calls.some(([method]) => method === "delete") &&
+      argOf(query, "is") === "verified_at"
+  );
+
+beforeEach(() => {
+  lookups.length = 0;
+  db.queries.length = 0;
+  db.respond = ({ calls }) => {
+    const patch = calls.find(([method]) => method === "update")?.[1];
+    return patch ? { data: { ...DOMAIN, ...(patch as object) } } : undefined;
+  };
+});
+
+afterEach(() => {
+  setDnsResolver(null);
+  vi.restoreAllMocks();
+});
+
+describe("verifyDomain", () => {
+  it("marks the domain verified when the challenge record matches", async () => {
+    resolveWith([["unrelated"], [challengeRecord(DOMAIN).value]]);
+
+    const domain = await verifyDomain(DOMAIN);
+
+    expect(lookups).toEqual(["_portfolio-challenge.ada.example.com"]);
+    expect(domain.verified_at).toEqual(expect.any(String));
+    expect(updatePatch()).toHaveProperty("verified_at");
+    expect(staleClaimsDeleted()).toBe(true);
+  });
+
+  it("joins TXT values split into chunks", async () => {
+    const { value } = challengeRecord(DOMAIN);
+    resolveWith([[value.slice(0, 10), value.slice(10)]]);
+
+    expect((await verifyDomain(DOMAIN)).verified_at).not.toBeNull();
+  });
+
+  it("only records the check when the token doesn't match", async () => {
+    resolveWith([["portfolio-verification=someone-else"]]);
+
+    const domain = await verifyDomain(DOMAIN);
+
+    expect(domain.verified_at).toBeNull();
+    expect(updatePatch()).toEqual({ last_checked_at: expect.any(String) });
+    expect(staleClaimsDeleted()).toBe(false);
+  });
+
+  it("treats DNS failures as not verified yet", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    resolveWith(Object.assign(new Error("queryTxt ENOTFOUND"), { code: "ENOTFOUND" }));
+
+    expect((await verifyDomain(DOMAIN)).verified_at).toBeNull();
+  });
+
+  it("throws DomainTakenError when another account verified it first", async () => {
+    resolveWith([[challengeRecord(DOMAIN).value]]);
+    db.respond = () => ({ error: { code: "23505", message: "duplicate key" } });
+
+    await expect(verifyDomain(DOMAIN)).rejects.toBeInstanceOf(DomainTakenError);
+  });
+});
+
+describe("normalizeHostname", () => {
+  it("reduces URLs to a lower-cased hostname", () => {
+    expect(normalizeHostname(" https://Ada.Example.com/about?x=1 ")).toBe("ada.example.com");
+    expect(normalizeHostname("ada.example.com.")).toBe("ada.example.com");
+  });
+
+  it("rejects invalid and platform hostnames", () => {
+    expect(normalizeHostname("not a host")).toBeNull();
+    expect(normalizeHostname("localhost")).toBeNull();
+    expect(normalizeHostname("ada.vercel.app")).toBeNull();
+  });
+});
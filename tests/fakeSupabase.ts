@@ -0,0 +1,73 @@
+// Stand-in for the supabase-js query builder, enough for the services under
+// test. Every chained call is recorded; awaiting the chain (or calling
+// .single()/.maybeSingle()) asks `respond` for the result.
+
+export interface FakeQuery {
+  table: string;
+  calls: Array<[method: string, ...args: unknown[]]>;
+}
+
+export type FakeResult = { data?: unknown; error?: unknown; count?: number };
+export type FakeResponder = (query: FakeQuery) => FakeResult | undefined;
+
+const builder = (query: FakeQuery, respond: FakeResponder): unknown => {
+  const result = () =>
+    Promise.resolve({ data: null, error: null, ...respond(query) });
+
+  return new Proxy(
+    {},
+    {
+      get(_target, method: string) {
+        if (method === "then") {
+          return (
+            onFulfilled: (value: unknown) => unknown,
+            onRejected?: (reason: unknown) => unknown
+          ) => result().then(onFulfilled, onRejected);
+        }
+        return (...args: unknown[]) => {
+          query.calls.push([method, ...args]);
+          return builder(query, respond);
+        };
+      },
+    }
+  );
+};
+
+export const createFakeSupabase = (respond: FakeResponder = () => undefined) => {
+  const queries: FakeQuery[] = [];
+  // Storage and auth admin calls are recorded as "storage:<bucket>" and
+  // "auth" queries, and answered by `respond` like table queries
+  const call = (table: string, method: string, args: unknown[]) => {
+    const query: FakeQuery = { table, calls: [[method, ...args]] };
+    queries.push(query);
+    return Promise.resolve({ data: null, error: null, ...respond(query) });
+  };
+  const client = {
+    storage: {
+      from: (bucket: string) => ({
+        list: (...args: unknown[]) => call(`storage:${bucket}`, "list", args),
+        remove: (...args: unknown[]) => call(`storage:${bucket}`, "remove", args),
+      }),
+    },
+    auth: {
+      admin: {
+        deleteUser: (...args: unknown[]) => call("auth", "deleteUser", args),
+      },
+    },
+    from(table: string) {
+      const query: FakeQuery = { table, calls: [] };
+      queries.push(query);
+      return builder(query, respond);
+    },
+    rpc(fn: string, args: unknown) {
+      const query: FakeQuery = { table: `rpc:${fn}`, calls: [["rpc", args]] };
+      queries.push(query);
+      return builder(query, respond);
+    },
+  };
+  return { client, queries };
+};
+
+// The first argument of the first `method` call in the query, if any
+export const argOf = (query: FakeQuery, method: string) =>
+  query.calls.find(([name]) => name === method)?.[1];
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  FakeProvider,
+  getAllowedModels,
+  isAllowedModel,
+  OpenAICompatibleProvider,
+  setLLMProvider,
+} from "../src/services/llm/index.js";
+
+afterEach(() => {
+  setLLMProvider(null);
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+const sseBody = (lines: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      const encoder = new TextEncoder();
+      // Split mid-line to exercise the buffering
+      const text = lines.join("\n") + "\n";
+      controller.enqueue(encoder.encode(text.slice(0, 25)));
+      controller.enqueue(encoder.encode(text.slice(25)));
+      controller.close();
+    },
+  });
+
+describe("OpenAICompatibleProvider", () => {
+  it("streams content deltas until [DONE]", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        sseBody([
+          'data: {"choices":[{"delta":{"content":"Hello"}}]}',
+          'data: {"choices":[{"delta":{}}]}',
+          'data: {"choices":[{"delta":{"content":" there"}}]}',
+          "data: [DONE]",
+        ])
+      )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new OpenAICompatibleProvider("http://llm.test/v1/", "key", "llama3.1");
+    const deltas: string[] = [];
+    for await (const delta of provider.stream("Hi", { model: "other" })) deltas.push(delta);
+
+    expect(deltas).toEqual(["Hello", " there"]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://llm.test/v1/chat/completions");
+    expect(JSON.parse(init.body)).toMatchObject({ model: "other", stream: true });
+    expect(init.headers.Authorization).toBe("Bearer key");
+  });
+
+  it("reports API errors with their status", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("bad key", { status: 401 })));
+
+    const provider = new OpenAICompatibleProvider("http://llm.test/v1", undefined, "llama3.1");
+
+    await expect(provider.generate("Hi")).rejects.toThrow("LLM API error 401: bad key");
+  });
+});
+
+describe("model allow-list", () => {
+  it("allows the provider default and LLM_ALLOWED_MODELS", () => {
+    setLLMProvider(new FakeProvider());
+    vi.stubEnv("LLM_ALLOWED_MODELS", "gpt-4o-mini, llama3.1");
+
+    expect(getAllowedModels()).toEqual(["fake-model", "gpt-4o-mini", "llama3.1"]);
+    expect(isAllowedModel("llama3.1")).toBe(true);
+    expect(isAllowedModel("gpt-4o")).toBe(false);
+  });
+});
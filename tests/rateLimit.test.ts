@@ -0,0 +1,126 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { FakeResponder } from "./fakeSupabase.js";
+
+const db = vi.hoisted(() => ({ respond: (() => undefined) as FakeResponder }));
+
+vi.mock("../src/config/supabaseClient.js", async () => {
+  const { createFakeSupabase } = await import("./fakeSupabase.js");
+  return { adminSupabase: createFakeSupabase((query) => db.respond(query)).client };
+});
+
+const { portfolioChatRateLimit } = await import("../src/middleware/rateLimitMiddleware.js");
+const { MemoryRateLimitStore, recordTokenUsage, setRateLimitStore } = await import(
+  "../src/services/rateLimit/index.js"
+);
+
+// One owner per test: chat limits are cached per owner id
+let ownerId = "";
+let ownerCount = 0;
+const settings = { chat_rate_limit_per_ip: 2, chat_rate_limit_per_portfolio: 60, daily_token_budget: 1000 };
+
+const app = express();
+app.set("trust proxy", true);
+app.post("/pdf/:clientName", portfolioChatRateLimit, (_req, res) => {
+  res.json({ ok: true });
+});
+
+let baseUrl = "";
+const server = app.listen(0);
+beforeAll(() => {
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+const chat = (slug: string, ip = "203.0.113.1") =>
+  fetch(`${baseUrl}/pdf/${slug}`, {
+    method: "POST",
+    headers: { "X-Forwarded-For": ip },
+  });
+
+beforeEach(() => {
+  ownerId = `owner-${++ownerCount}`;
+  setRateLimitStore(new MemoryRateLimitStore());
+  db.respond = ({ table }) => {
+    if (table === "profiles") return { data: [{ id: ownerId, user_name: "ada" }] };
+    if (table === "builder_settings") return { data: settings };
+  };
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("portfolioChatRateLimit", () => {
+  it("lets requests through under the per-IP limit with RateLimit headers", async () => {
+    const response = await chat("ada");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ratelimit-limit")).toBe("2");
+    expect(response.headers.get("ratelimit-remaining")).toBe("1");
+  });
+
+  it("answers 429 with Retry-After once an IP is over its limit", async () => {
+    await chat("ada");
+    await chat("ada");
+    const response = await chat("ada");
+
+    expect(response.status).toBe(429);
+    const retryAfter = Number(response.headers.get("retry-after"));
+    expect(retryAfter).toBeGreaterThanOrEqual(1);
+    expect(retryAfter).toBeLessThanOrEqual(60);
+    expect(response.headers.get("ratelimit-remaining")).toBe("0");
+  });
+
+  it("counts each visitor IP separately", async () => {
+    await chat("ada", "203.0.113.1");
+    await chat("ada", "203.0.113.1");
+
+    expect((await chat("ada", "203.0.113.2")).status).toBe(200);
+  });
+
+  it("answers 429 once the owner's daily token budget is spent", async () => {
+    await recordTokenUsage(ownerId, settings.daily_token_budget);
+    const response = await chat("ada");
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({
+      error: expect.stringContaining("daily limit"),
+    });
+    expect(Number(response.headers.get("retry-after"))).toBeGreaterThanOrEqual(1);
+  });
+
+  it("fails open when the counter store is down", async () => {
+    setRateLimitStore({
+      increment: () => Promise.reject(new Error("store down")),
+      peek: () => Promise.resolve(null),
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    expect((await chat("ada")).status).toBe(200);
+  });
+
+  it("leaves unknown portfolios to the controller", async () => {
+    db.respond = () => ({ data: [] });
+
+    expect((await chat("nobody")).status).toBe(200);
+  });
+});
+
+describe("MemoryRateLimitStore", () => {
+  it("starts a new window once the old one has expired", async () => {
+    vi.useFakeTimers();
+    try {
+      const store = new MemoryRateLimitStore();
+      await store.increment("key", 1, 1000);
+      await store.increment("key", 1, 1000);
+      vi.advanceTimersByTime(1001);
+
+      expect(await store.peek("key")).toBeNull();
+      expect((await store.increment("key", 1, 1000)).count).toBe(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { FakeProvider, setLLMProvider } from "../src/services/llm/index.js";
+import {
+  citationsFor,
+  keywordSearchChunks,
+  MemoryVectorStore,
+  retrieveCvChunks,
+  setVectorStore,
+} from "../src/services/retrieval/index.js";
+
+const CV = `# Ada Lovelace
+
+## Experience
+
+Analyst at the Analytical Engine project, writing the first published
+algorithm for Bernoulli numbers.
+
+## Education
+
+Private tutoring in mathematics and science with Augustus De Morgan.
+
+## Skills
+
+Mathematics, algorithm design, technical writing, translation.
+`;
+
+let provider: FakeProvider;
+let store: MemoryVectorStore;
+
+beforeEach(() => {
+  provider = new FakeProvider();
+  store = new MemoryVectorStore();
+  setLLMProvider(provider);
+  setVectorStore(store);
+});
+
+afterEach(() => {
+  setLLMProvider(null);
+  setVectorStore(null);
+  vi.restoreAllMocks();
+});
+
+describe("retrieveCvChunks", () => {
+  it("indexes the CV on first use and ranks the matching section first", async () => {
+    const [best] = await retrieveCvChunks(1, CV, "Who tutored Ada in mathematics?", 1);
+
+    expect(await store.hasChunks(1)).toBe(true);
+    expect(best.section).toBe("Education");
+  });
+
+  it("reuses the stored chunks on later questions", async () => {
+    await retrieveCvChunks(1, CV, "education");
+    const embed = vi.spyOn(provider, "embed");
+    await retrieveCvChunks(1, CV, "experience");
+
+    // Only the question is embedded; the CV is not re-indexed
+    expect(embed).toHaveBeenCalledTimes(1);
+    expect(embed).toHaveBeenCalledWith(["experience"]);
+  });
+
+  it("returns chunks in CV order with citations per section", async () => {
+    const chunks = await retrieveCvChunks(1, CV, "mathematics algorithm", 3);
+
+    const indexes = chunks.map((chunk) => chunk.chunk_index);
+    expect(indexes).toEqual([...indexes].sort((a, b) => a - b));
+    expect(citationsFor(chunks).map((c) => c.section)).toEqual(
+      chunks.map((chunk) => chunk.section)
+    );
+  });
+
+  it("falls back to keyword search when embedding fails", async () => {
+    vi.spyOn(provider, "embed").mockRejectedValue(new Error("embedding API down"));
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    const chunks = await retrieveCvChunks(1, CV, "Bernoulli numbers", 1);
+
+    expect(chunks.map((chunk) => chunk.section)).toEqual(["Experience"]);
+  });
+});
+
+describe("keywordSearchChunks", () => {
+  it("returns every chunk when no words match", () => {
+    const chunks = keywordSearchChunks(CV, "zzz qqq");
+
+    expect(chunks.map((chunk) => chunk.section)).toEqual(
+      expect.arrayContaining(["Experience", "Education", "Skills"])
+    );
+    expect(chunks.every((chunk) => chunk.score === 0)).toBe(true);
+  });
+});